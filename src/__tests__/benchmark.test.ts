@@ -0,0 +1,120 @@
+/**
+ * tests that construction copes with lists long and deep
+ * running times are compared with others taken by turns, so changes in the load on the machine affect both alike
+ */
+
+import { ListMatcher, regex } from '../index'
+import { randomizer } from './helpers'
+
+// distinct phrases of random letters and spaces
+function phrases(count: number, seed = 1): string[] {
+  const random = randomizer(seed)
+  const found = new Set<string>()
+  const list: string[] = []
+  while (list.length < count) {
+    let w = ''
+    for (let i = 3 + random(10); i > 0; i--) w += 'abcdefghijklmnopqrstuvwxyz '[random(27)]
+    if (found.has(w)) continue
+    found.add(w)
+    list.push(w)
+  }
+  return list
+}
+
+// the ratio of the least times of several runs of two functions, run by turns
+function ratio(f: () => void, g: () => void, runs = 5): number {
+  const least = [Infinity, Infinity]
+  for (let i = 0; i < runs; i++) {
+    ;[f, g].forEach((h, j) => {
+      const start = Date.now()
+      h()
+      least[j] = Math.min(least[j], Date.now() - start)
+    })
+  }
+  return Math.max(least[0], 1) / Math.max(least[1], 1)
+}
+
+// the construction of an expression from a list, to be timed
+const building = (words: string[]) => () => regex(words)
+
+// the expression a trie of the phrases makes when simply written out, with none of the options or the syntax tree
+function plainRegex(words: string[]): RegExp {
+  type Trie = Map<string, Trie | null>
+  const root: Trie = new Map()
+  for (const w of words) {
+    let node = root
+    for (const c of w) {
+      let child = node.get(c)
+      if (!child) node.set(c, (child = new Map()))
+      node = child
+    }
+    node.set('', null)
+  }
+  const write = (node: Trie): string => {
+    const alternatives: string[] = []
+    node.forEach((child, c) => {
+      if (child) alternatives.push(c.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&') + write(child))
+    })
+    alternatives.sort()
+    const rx = alternatives.length === 1 ? alternatives[0] : `(?:${alternatives.join('|')})`
+    if (!node.has('') || !alternatives.length) return rx
+    return `${alternatives.length === 1 ? `(?:${rx})` : rx}?`
+  }
+  return new RegExp(write(root))
+}
+
+describe('long lists', () => {
+  test('construction time grows linearly', () => {
+    const small = phrases(5000)
+    const large = phrases(20000)
+    // four times the phrases should take nowhere near sixteen times as long
+    expect(ratio(building(large), building(small))).toBeLessThan(8)
+  }, 60000)
+  test('construction takes little longer than writing out the trie', () => {
+    const words = phrases(20000)
+    const plain = new RegExp(`^(?:${plainRegex(words).source})$`)
+    for (let i = 0; i < words.length; i += 997) expect(plain.test(words[i])).toBe(true)
+    // the options, the syntax tree, and the choice of the shortest forms come at a bounded cost
+    expect(ratio(building(words), () => plainRegex(words))).toBeLessThan(3)
+  }, 60000)
+  test('a hundred thousand phrases', () => {
+    const words = phrases(100000)
+    const rx = new RegExp(`^(?:${regex(words).source})$`)
+    for (let i = 0; i < words.length; i += 997) expect([words[i], rx.test(words[i])]).toEqual([words[i], true])
+    // spreading the list into function arguments would overflow the stack
+    expect(() => regex(phrases(200000, 2))).not.toThrow()
+  }, 60000)
+  test('a ListMatcher remakes its expression faster than regex can make it', () => {
+    const words = phrases(20000)
+    const m = new ListMatcher(words)
+    expect(m.regex).toEqual(regex(words))
+    const changes = phrases(20020).slice(20000)
+    const incremental = () => {
+      for (const w of changes) {
+        m.add(w)
+        m.regex
+      }
+      m.remove(...changes)
+    }
+    // each change, with the new expression, should cost a small fraction of the whole
+    expect(ratio(incremental, building(words), 3)).toBeLessThan(1)
+  }, 60000)
+})
+
+describe('deep lists', () => {
+  const random = randomizer(3)
+  let long = ''
+  for (let i = 0; i < 6000; i++) long += 'abcdefghij'[random(10)]
+  // every phrase nested in the next
+  const chain: string[] = []
+  for (let i = 1; i <= long.length; i += 3) chain.push(long.slice(0, i))
+  test('nested phrases do not overflow the stack', () => {
+    const rx = new RegExp(`^(?:${regex(chain).source})$`)
+    expect(rx.test(chain[chain.length - 1])).toBe(true)
+    expect(rx.test(long.slice(0, 3000))).toBe(false)
+  }, 60000)
+  test('nor with mergeSuffixes', () => {
+    const rx = new RegExp(`^(?:${regex(chain, { mergeSuffixes: true }).source})$`)
+    expect(rx.test(chain[1000])).toBe(true)
+  }, 60000)
+})
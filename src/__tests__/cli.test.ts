@@ -0,0 +1,111 @@
+import { main } from '../cli'
+import { codegen, qw } from '../index'
+
+// runs the command on files held in memory
+function run(args: string[], files: Record<string, string> = {}): string {
+  return main(args, (file) => {
+    if (files[file] === undefined) throw new Error(`ENOENT: no such file or directory, open '${file}'`)
+    return files[file]
+  })
+}
+
+describe('input', () => {
+  test('standard input', () => expect(run([], { '-': 'cat camel\ndog\n' })).toBe('(?:ca(?:mel|t)|dog)'))
+  test('files', () => expect(run(['a', 'b'], { a: 'cat', b: 'cot' })).toBe('c[ao]t'))
+  test('files and standard input', () => expect(run(['a', '-'], { a: 'cat', '-': 'cot' })).toBe('c[ao]t'))
+  test('separator', () => expect(run(['--separator', '\\n'], { '-': 'hot dog\nhot cat\n' })).toBe('hot (?:cat|dog)'))
+  test('separator given with =', () => expect(run(['--separator=,'], { '-': 'a b,c' })).toBe('(?:a b|c)'))
+  test('empty input', () => expect(run([], { '-': '' })).toBe('(?!)'))
+})
+
+describe('options', () => {
+  test('bound', () => expect(run(['--bound'], { '-': 'cat' })).toBe('\\bcat\\b'))
+  test('word-characters', () =>
+    expect(run(['--word-characters', "[\\w'-]"], { '-': "don't" })).toBe("(?<![\\w'-])don't(?![\\w'-])"))
+  test('anchor', () =>
+    expect(run(['--anchor', 'line', '--format', 'literal'], { '-': 'cat dog' })).toBe('/^(?:cat|dog)$/m'))
+  test('max-edits', () =>
+    expect(run(['--max-edits', '1', '--transpositions', '--anchor', 'string'], { '-': 'ab' })).toBe(
+      '^(?:a(?:b.|b|[^b\\n\\r\\u2028\\u2029]b|[^b\\n\\r\\u2028\\u2029])|ba|[ab]|[^a\\n\\r\\u2028\\u2029]a?b)$',
+    ))
+  test('capture', () => expect(run(['--capture'], { '-': 'cat cats' })).toBe('(cats?)'))
+  test('normalize-whitespace', () =>
+    expect(run(['--normalize-whitespace', '--separator', ','], { '-': 'hot  dog' })).toBe('hot\\s+dog'))
+  test('flags', () => expect(run(['--flags', 'i', '--format', 'literal'], { '-': 'Cat' })).toBe('/cat/i'))
+  test('sub', () => expect(run(['--sub', '#=\\d', '--sub=b=\\b'], { '-': 'b###-####b' })).toBe('\\b\\d{3}-\\d{4}\\b'))
+  test('glob', () => expect(run(['--glob'], { '-': 'col{o,ou}r gr[ae]y' })).toBe('(?:colou?r|gr[ae]y)'))
+  test('graphemes', () => expect(run(['--graphemes'], { '-': 'é a' })).toBe('(?:é|a)'))
+  test('ignore-case', () => expect(run(['--ignore-case'], { '-': 'cat' })).toBe('[Cc][Aa][Tt]'))
+  test('ignore-case-from', () =>
+    expect(run(['--ignore-case-from', 'c'], { '-': 'cat dog', c: 'cat' })).toBe('(?:[Cc][Aa][Tt]|dog)'))
+  test('dialect', () =>
+    expect(run(['--dialect', 'python', '--flags', 'i'], { '-': 'cat camel' })).toBe('(?i:ca(?:mel|t))'))
+  test('merge-suffixes', () => expect(run(['--merge-suffixes'], { '-': 'walked talked' })).toBe('[tw]alked'))
+  test('max-source-length', () =>
+    expect(run(['--max-source-length', '12'], { '-': 'cat camel dog dodo' })).toBe('ca(?:mel|t)\ndo(?:do|g)'))
+  test('max-depth', () =>
+    expect(run(['--max-depth=1', '--format=literal'], { '-': 'cat camel dog dodo' })).toBe(
+      '/ca(?:mel|t)/\n/do(?:do|g)/',
+    ))
+  test('normalize', () => expect(run(['--normalize', 'NFKC'], { '-': 'ﬁne fine' })).toBe('fine'))
+  test('ignore-diacritics', () => expect(run(['--ignore-diacritics'], { '-': 'x' })).toBe('[xẋẍ]\\p{M}*'))
+  test('locale', () => expect(run(['--locale', 'tr', '--ignore-case'], { '-': 'I' })).toBe('[Iı]'))
+  test('equivalent', () => expect(run(['--equivalent', "'’"], { '-': "don't" })).toBe("don['’]t"))
+  test('optional-separator', () =>
+    expect(run(['--optional-separator', '-'], { '-': 'e-mail' })).toBe('e(?:-|\\s+)?mail'))
+  test('strict', () => expect(() => run(['--strict'], { '-': '' })).toThrow('there are no phrases to match'))
+  test('help', () => expect(run(['--bound', '--help'])).toMatch(/^usage: list-matcher/))
+})
+
+describe('formats', () => {
+  test('literal', () => expect(run(['--format', 'literal', '--flags', 'gi'], { '-': 'a/b' })).toBe('/a\\/b/gi'))
+  test('json', () =>
+    expect(JSON.parse(run(['--format', 'json'], { '-': 'süß' }))).toEqual({ source: 'süß', flags: 'u' }))
+  test('json in other dialects', () =>
+    expect(JSON.parse(run(['--format', 'json', '--dialect', 'pcre'], { '-': 'a b' }))).toEqual({ source: '[ab]' }))
+  test('json with parts', () =>
+    expect(JSON.parse(run(['--format', 'json', '--max-source-length', '3'], { '-': 'cat dog' }))).toEqual([
+      { source: 'cat', flags: '' },
+      { source: 'dog', flags: '' },
+    ]))
+})
+
+describe('modules', () => {
+  const files = { 'lists/animals.txt': 'cat camel', colors: 'red tan' }
+  test('typescript', () =>
+    expect(run(['--module', 'ts', '--bound', 'lists/animals.txt', 'hues=colors'], files)).toBe(
+      codegen({ animals: qw('cat camel'), hues: qw('red tan') }, { bound: true }).replace(/\n$/, ''),
+    ))
+  test('javascript', () =>
+    expect(run(['--module=js', 'colors'], files)).toBe(codegen({ colors: qw('red tan') }, {}, 'js').replace(/\n$/, '')))
+})
+
+describe('bad input', () => {
+  const errors: [string[], string][] = [
+    [['--nonsense'], 'unknown option: --nonsense'],
+    [['--flags'], '--flags requires a value'],
+    [['--bound=yes'], '--bound takes no value'],
+    [['--format', 'xml'], 'unknown format: xml'],
+    [['--dialect', 'perl'], 'unknown dialect: perl'],
+    [['--normalize', 'NFKD'], 'unknown normalization form: NFKD'],
+    [['--anchor', 'word'], 'unknown anchor: word'],
+    [['--max-edits', '2'], 'fuzzy matching allows at most one edit, not 2'],
+    [['--transpositions'], '--transpositions requires --max-edits'],
+    [['--word-characters', '[a'], 'invalid word characters: [a'],
+    [['--max-depth', 'two'], '--max-depth requires a whole number, not two'],
+    [['--sub', '#'], 'a substitution must have the form <key>=<pattern>, not #'],
+    [['--separator', '('], 'invalid separator: ('],
+    [['--dialect', 'pcre', '--format', 'literal'], 'a literal can only be written in the javascript dialect'],
+    [['--flags', 'iq'], 'unknown flags: iq'],
+    [['--max-source-length', '2'], 'a phrase cannot be matched'],
+    [['missing'], 'no such file'],
+    [['--module', 'go', 'a=-'], 'a module must be ts or js, not go'],
+    [['--module', 'ts'], '--module requires files'],
+    [['--module', 'ts', '--format', 'json', 'a=-'], '--format cannot be used with --module'],
+    [['--module', 'ts', 'a=-', 'a=-'], 'a is given twice'],
+    [['--module', 'ts', '-'], 'invalid name: -'],
+  ]
+  errors.forEach(([args, message]) =>
+    test(args.join(' '), () => expect(() => run(args, { '-': 'cat' })).toThrow(message)),
+  )
+})
@@ -1,6 +1,23 @@
 /** tests for all the code shown in documentation */
 
-import { ListMatcherOptions, qw, regex } from '../index'
+import {
+  categorized,
+  codegen,
+  ListMatcher,
+  ListMatcherError,
+  ListMatcherOptions,
+  matcher,
+  optimize,
+  parse,
+  qw,
+  regex,
+  regexes,
+  render,
+  renderer,
+  source,
+  union,
+  verify,
+} from '../index'
 
 describe('README', () => {
   describe('Synopsis', () => {
@@ -74,11 +91,32 @@ describe('README', () => {
           /\b(?:ca(?:mel|t)|d(?:og|romedary)|m(?:ouse|uskrat))\b/i,
         ))
     })
+    describe('categorized', () => {
+      const rx = categorized({ color: qw('red tan'), animal: qw('cat cow') })
+      test('first', () => expect(rx).toEqual(/(?<color>(?:red|tan))|(?<animal>c(?:at|ow))/))
+      test('second', () => expect('a tan cow'.match(rx)!.groups).toEqual({ color: 'tan', animal: undefined }))
+      test('third', () =>
+        expect(categorized({ pet: qw('cat dog'), wild: qw('Cat lion') }, { flags: 'i' })).toEqual(
+          /(?<pet>(?:cat|dog))|(?<wild>lion)/i,
+        ))
+    })
     describe('ListMatcherOptions', () => {
       describe('bound', () => {
         test('first', () => expect(regex(['cat', '@#$'], { bound: true })).toEqual(/(?:@#\$|\bcat\b)/))
         test('second', () =>
           expect(regex(['süß', 'bloß'], { bound: true })).toEqual(/(?<![\p{L}\p{N}_])(?:blo|sü)ß(?![\p{L}\p{N}_])/u))
+        test('third', () =>
+          expect(regex(['rock-n-roll', "don't"], { bound: /[\w'-]/ })).toEqual(
+            /(?<![\w'-])(?:don't|rock-n-roll)(?![\w'-])/,
+          ))
+        test('fourth', () =>
+          expect(regex(['東京', 'cat'], { bound: (c) => !/\p{Script=Han}/u.test(c) })).toEqual(
+            /(?:(?<![\p{L}\p{N}_])cat(?![\p{L}\p{N}_])|東京)/u,
+          ))
+      })
+      describe('anchor', () => {
+        test('first', () => expect(regex(qw('cat dog'), { anchor: 'string' })).toEqual(/^(?:cat|dog)$/))
+        test('second', () => expect(regex(qw('cat dog'), { anchor: 'line', flags: 'g' })).toEqual(/^(?:cat|dog)$/gm))
       })
       describe('capture', () => {
         test('first', () => expect(regex(qw('cat cats'), { capture: true })).toEqual(/(cats?)/))
@@ -87,12 +125,21 @@ describe('README', () => {
         test('first', () =>
           expect(regex([' cat ', 'cat   dog'], { normalizeWhitespace: true })).toEqual(/cat(?:\s+dog)?/))
       })
+      describe('equivalences', () => {
+        test('first', () => expect(regex(["don't", 'won’t'], { equivalences: ["'’"] })).toEqual(/[dw]on['’]t/u))
+        test('second', () =>
+          expect(regex(['e-mail'], { equivalences: [{ characters: '-', optional: true, whiteSpace: true }] })).toEqual(
+            /e(?:-|\s+)?mail/,
+          ))
+      })
       describe('flags', () => {
         test('first', () => expect(regex(['CAT'], { flags: 'iug' })).toEqual(/cat/giu))
       })
       describe('substitutions', () => {
         test('simple', () =>
           expect(regex(['b###-####b'], { substitutions: { '#': '\\d', b: '\\b' } })).toEqual(/\b\d{3}-\d{4}\b/))
+        test('repetition', () => expect(regex(['#.#.#.#'], { substitutions: { '#': '\\d' } })).toEqual(/(?:\d\.){3}\d/))
+        test('ranges', () => expect(regex(['##', '###', '####'], { substitutions: { '#': '\\d' } })).toEqual(/\d{2,4}/))
         let subjects = regex(['Anne', 'Bob', 'Carol'], { bound: true })
         let verbs = regex(['eats', 'throws', 'pats'], { bound: true })
         let objects = regex(['clams', 'rocks', 'chunks'], { bound: true })
@@ -105,6 +152,188 @@ describe('README', () => {
           expect(clauses).toEqual(
             /(?:\b(?:Anne|Bob|Carol)\b\s+(?:\b(?:c(?:hunk|lam)|rock)s\b\s+\b(?:eat|pat|throw)s\b|\b(?:eat|pat|throw)s\b\s+\b(?:c(?:hunk|lam)|rock)s\b)|\b(?:eat|pat|throw)s\b\s+\b(?:Anne|Bob|Carol)\b\s+\b(?:c(?:hunk|lam)|rock)s\b)/,
           ))
+        test('word edges', () =>
+          expect(regex(['#th', '#st'], { bound: true, substitutions: { '#': '\\d' } })).toEqual(/\d(?:st|th)\b/))
+        test('word edges 2', () =>
+          expect(
+            regex(['#th', '#st'], {
+              bound: true,
+              substitutions: { '#': { pattern: '\\d', wordLeft: true, wordRight: true } },
+            }),
+          ).toEqual(/\b\d(?:st|th)\b/))
+      })
+      describe('ignoreCase', () => {
+        test('first', () => expect(regex(['cat', 'cow'], { ignoreCase: true })).toEqual(/[Cc](?:[Aa][Tt]|[Oo][Ww])/))
+        test('second', () => expect(regex(['a', 'b', 'C'], { ignoreCase: ['a', 'b'] })).toEqual(/[A-Cab]/))
+        let codes = regex(['XJ-12', 'XK-7'], { bound: true })
+        let names = regex(['jaguar', 'panther'], { bound: true, ignoreCase: true })
+        test('third', () =>
+          expect(
+            regex(['C N'], { normalizeWhitespace: true, substitutions: { C: codes.source, N: names.source } }),
+          ).toEqual(/\bX(?:J-12|K-7)\b\s+\b(?:[Jj][Aa][Gg][Uu][Aa]|[Pp][Aa][Nn][Tt][Hh][Ee])[Rr]\b/))
+      })
+      describe('glob', () => {
+        test('first', () =>
+          expect(regex(['col{o,ou}r', 'gr[ae]y', 'grey', 'b?t'], { glob: true })).toEqual(/(?:b.t|colou?r|gr[ae]y)/))
+      })
+      describe('fuzzy', () => {
+        test('first', () =>
+          expect(regex(['cat'], { fuzzy: { maxEdits: 1 } })).toEqual(
+            /(?:at|c(?:a(?:t|.t|[^t\n\r\u2028\u2029])|[at]|[^a\n\r\u2028\u2029]a?t)|[^c\n\r\u2028\u2029]at)/,
+          ))
+        test('second', () =>
+          expect(
+            matcher(['iphone', 'ipad'], { fuzzy: { maxEdits: 1, transpositions: true }, bound: true }).exec(
+              'my new ipda',
+            ),
+          ).toEqual({ phrase: 'ipad', phrases: ['ipad'], payloads: [undefined], index: 7, text: 'ipda', distance: 1 }))
+      })
+      describe('locale', () => {
+        test('first', () => expect(regex(['Straße', 'strasse'], { flags: 'i' })).toEqual(/stra(?:ss|[ßẞ])e/i))
+        test('second', () =>
+          expect(regex(['KIZ'], { ignoreCase: true, locale: 'tr' }).source).toBe('[Kk\u212a][Iı][Zz]'))
+      })
+      describe('dialect', () => {
+        test('first', () => expect(source(['a.', 'a-', 'a]', 'a^'], { dialect: 'pcre' })).toBe('a[\\-.\\]\\^]'))
+        test('second', () => expect(source(['a.', 'a-', 'a]', 'a^'], { dialect: 'posix' })).toBe('a[].^-]'))
+      })
+      describe('graphemes', () => {
+        test('first', () => expect(regex(['e\u0301', 'e\u0300', 'e']).source).toBe('e[\u0300\u0301]?'))
+        test('second', () =>
+          expect(regex(['e\u0301', 'e\u0300', 'e'], { graphemes: true }).source).toBe('(?:e\u0301|e\u0300|e)'))
+        test('third', () =>
+          expect(regex(['cafe\u0301', 'cafe'], { graphemes: true, bound: true }).source).toBe(
+            '(?<![\\p{L}\\p{M}\\p{N}_])caf(?:e\u0301|e)(?![\\p{L}\\p{M}\\p{N}_])',
+          ))
+      })
+      describe('normalize', () => {
+        test('first', () => expect(regex(['café', 'cafe\u0301'], { normalize: 'NFC' })).toEqual(/café/u))
+      })
+      describe('ignoreDiacritics', () => {
+        test('first', () =>
+          expect(regex(['né', 'ne'], { ignoreDiacritics: true })).toEqual(
+            /[nñńņňǹṅṇṉṋ]\p{M}*[eè-ëēĕėęěȅȇȩḕḗḙḛḝẹẻẽếềểễệ]\p{M}*/u,
+          ))
+      })
+      describe('mergeSuffixes', () => {
+        test('first', () =>
+          expect(regex(qw('walking talking walked talked'))).toEqual(/(?:talk(?:ed|ing)|walk(?:ed|ing))/))
+        test('second', () =>
+          expect(regex(qw('walking talking walked talked'), { mergeSuffixes: true })).toEqual(/[tw]alk(?:ed|ing)/))
+        test('third', () =>
+          expect(
+            regex(qw('jump jumps jumped jumping walk walks walked walking'), { bound: true, mergeSuffixes: true }),
+          ).toEqual(/\b(?:jump|walk)(?:ed|ing|s)?\b/))
+      })
+      describe('maxDepth', () => {
+        test('first', () =>
+          expect(() => regex(qw('cat camel dog dodo'), { maxDepth: 1 })).toThrow(
+            'the pattern exceeds the maxSourceLength or maxDepth option; use regexes to split it',
+          ))
+      })
+      describe('strict', () => {
+        test('first', () =>
+          expect(() => regex(['cat'], { flags: 'gx', strict: true })).toThrow(
+            new ListMatcherError('INVALID_FLAGS', 'invalid flags: gx'),
+          ))
+        test('second', () =>
+          expect(() => regex(['', ' '], { normalizeWhitespace: true, strict: true })).toThrow(
+            new ListMatcherError('EMPTY_LIST', 'there are no phrases to match'),
+          ))
+      })
+    })
+    describe('source', () => {
+      test('first', () => expect(source(qw('cat camel'), { dialect: 'python', flags: 'i' })).toBe('(?i:ca(?:mel|t))'))
+      test('second', () =>
+        expect(source(qw('süß bloß'), { dialect: 're2', bound: true })).toBe(
+          '(?:^|[^\\p{L}\\p{N}_])(?:blo|sü)ß(?:[^\\p{L}\\p{N}_]|$)',
+        ))
+      test('third', () =>
+        expect(source(qw('cat camel'), { dialect: 'posix', bound: true, flags: 'i' })).toBe(
+          '(^|[^[:alnum:]_])[Cc][Aa]([Mm][Ee][Ll]|[Tt])([^[:alnum:]_]|$)',
+        ))
+    })
+    describe('regexes and union', () => {
+      test('regexes', () =>
+        expect(regexes(qw('cat camel dog dodo'), { maxSourceLength: 12 })).toEqual([/ca(?:mel|t)/, /do(?:do|g)/]))
+      const u = union(regexes(qw('cat category dog'), { maxSourceLength: 10 }))
+      test('regexes of union', () => expect(u.regexes).toEqual([/cat/, /category/, /dog/]))
+      test('exec', () => {
+        const m = u.exec('a category')!
+        expect([m[0], m.index]).toEqual(['category', 2])
+      })
+      test('matchAll', () => expect(u.matchAll('dog cat').map((m) => m[0])).toEqual(['dog', 'cat']))
+    })
+    describe('verify', () => {
+      test('first', () =>
+        expect(verify(qw('cat cats'))).toEqual({ regex: /cats?/, exact: true, missing: [], extra: [] }))
+      test('second', () => expect(verify(['+## ####', '###-####'], { substitutions: { '#': '\\d' } }).exact).toBe(true))
+    })
+    describe('optimize', () => {
+      test('first', () => expect(optimize(/cat|camel|carp|dog/)).toEqual(/(?:ca(?:mel|rp|t)|dog)/))
+      test('second', () => expect(optimize('\\bcat\\b|\\bcot\\b|c\\.t')).toEqual(/(?:\bc[ao]t\b|c\.t)/))
+      test('third', () => expect(optimize(/[a-z][a-z][a-z]/)).toEqual(/[a-z]{3}/))
+      test('fourth', () =>
+        expect(() => optimize(/cats*|dog/)).toThrow(
+          'cannot read /cats*|dog/ as a list of phrases: the quantifier * matches infinitely many strings at offset 4',
+        ))
+    })
+    describe('matcher', () => {
+      const m = matcher(['Cat', 'cat', ['dog', 1]], { flags: 'i' })
+      test('regex', () => expect(m.regex).toEqual(/(?:cat|dog)/i))
+      test('exec', () =>
+        expect(m.exec('hot dog')).toEqual({ phrase: 'dog', phrases: ['dog'], payloads: [1], index: 4, text: 'dog' }))
+      test('exec with multiple phrases', () =>
+        expect(m.exec('CAT')).toEqual({
+          phrase: 'Cat',
+          phrases: ['Cat', 'cat'],
+          payloads: [undefined, undefined],
+          index: 0,
+          text: 'CAT',
+        }))
+      test('matchAll', () => expect(m.matchAll('cat dog').map(({ phrase }) => phrase)).toEqual(['Cat', 'dog']))
+      test('test', () => expect(m.test('bird')).toBe(false))
+    })
+    describe('ListMatcher', () => {
+      const m = new ListMatcher(qw('cat camel'))
+      test('regex', () => expect(m.regex).toEqual(/ca(?:mel|t)/))
+      test('add and remove', () => expect(m.add('cow').remove('camel').regex).toEqual(/c(?:at|ow)/))
+      test('has', () => expect(m.has('camel')).toBe(false))
+    })
+    describe('parse and render', () => {
+      const ast = parse(qw('cat cot'))
+      test('parse', () =>
+        expect(ast).toEqual({
+          type: 'pattern',
+          node: {
+            type: 'sequence',
+            nodes: [
+              { type: 'literal', codePoint: 99 },
+              { type: 'charClass', codePoints: [97, 111] },
+              { type: 'literal', codePoint: 116 },
+            ],
+          },
+          flags: '',
+        }))
+      test('render', () => expect(render(ast)).toBe('c[ao]t'))
+      test('render posix', () => expect(render(ast, renderer('posix'))).toBe('c[ao]t'))
+      test('custom renderer', () =>
+        expect(
+          render(ast, {
+            ...renderer(),
+            charClass: (node) => `(?:${node.codePoints.map((c) => String.fromCodePoint(c)).join('|')})`,
+          }),
+        ).toBe('c(?:a|o)t'))
+    })
+    describe('ListMatcherError', () => {
+      test('first', () => {
+        let code
+        try {
+          regex(qw('cat dog'), { maxSourceLength: 5 })
+        } catch (e) {
+          if (e instanceof ListMatcherError) code = e.code
+        }
+        expect(code).toBe('LIMIT_EXCEEDED')
       })
     })
     describe('qw', () => {
@@ -123,6 +352,9 @@ describe('README', () => {
       test('fourth', () => expect(qw('foo bar baz', /([aeiou])/)).toEqual(['f', 'o', 'o', ' b', 'a', 'r b', 'a', 'z']))
     })
   })
+  describe('Caveats', () => {
+    test('astral plane characters', () => expect(regex(qw('😀 😁 😂 😃'))).toEqual(/[😀-😃]/u))
+  })
 })
 
 describe('index.ts', () => {
@@ -134,4 +366,66 @@ describe('index.ts', () => {
         regex(['+## #### ######b', 'b###-####b', '(###) ###-####b'], { substitutions: { b: '\\b', '#': '\\d' } }),
       ).toEqual(/(?:\(\d{3}\) \d{3}-|\+\d\d \d{4} \d\d|\b\d{3}-)\d{4}\b/))
   })
+  describe('regexes', () => {
+    test('cat camel dog dodo', () =>
+      expect(regexes(qw('cat camel dog dodo'), { maxSourceLength: 12 })).toEqual([/ca(?:mel|t)/, /do(?:do|g)/]))
+  })
+  describe('union', () => {
+    const u = union(regexes(qw('cat category dog'), { maxSourceLength: 10 }))
+    test('exec', () => expect(u.exec('a category')?.[0]).toBe('category'))
+    test('matchAll', () => expect(u.matchAll('dog cat').map((m) => m[0])).toEqual(['dog', 'cat']))
+  })
+  describe('codegen', () => {
+    test('animals', () =>
+      expect(codegen({ animals: qw('cat camel dog') }, { bound: true })).toBe(`// generated by list-matcher; do not edit
+// options: {"bound":true}
+
+export const animals = /\\b(?:ca(?:mel|t)|dog)\\b/
+export const animalsPhrases = Object.freeze([
+  "camel",
+  "cat",
+  "dog",
+] as const)
+export type AnimalsPhrase = (typeof animalsPhrases)[number]
+`))
+  })
+  describe('verify', () => {
+    test('cat cats', () =>
+      expect(verify(qw('cat cats'))).toEqual({ regex: /cats?/, exact: true, missing: [], extra: [] }))
+  })
+  describe('optimize', () => {
+    test('cat camel carp dog', () => expect(optimize(/cat|camel|carp|dog/)).toEqual(/(?:ca(?:mel|rp|t)|dog)/))
+    test('boundaries', () => expect(optimize('\\bcat\\b|\\bcot\\b|c\\.t')).toEqual(/(?:\bc[ao]t\b|c\.t)/))
+  })
+  describe('ListMatcher', () => {
+    const m = new ListMatcher(qw('cat camel'))
+    test('regex', () => expect(m.regex).toEqual(/ca(?:mel|t)/))
+    test('add and remove', () => expect(m.add('cow').remove('camel').regex).toEqual(/c(?:at|ow)/))
+    test('has', () => expect(m.has('camel')).toBe(false))
+  })
+  describe('parse', () => {
+    test('cat cot', () =>
+      expect(parse(qw('cat cot'))).toEqual({
+        type: 'pattern',
+        node: {
+          type: 'sequence',
+          nodes: [
+            { type: 'literal', codePoint: 99 },
+            { type: 'charClass', codePoints: [97, 111] },
+            { type: 'literal', codePoint: 116 },
+          ],
+        },
+        flags: '',
+      }))
+  })
+  describe('render', () => {
+    test('default', () => expect(render(parse(qw('cat cot')))).toBe('c[ao]t'))
+    test('custom', () =>
+      expect(
+        render(parse(qw('cat cot')), {
+          ...renderer(),
+          charClass: (n) => `(?:${n.codePoints.map((c) => String.fromCodePoint(c)).join('|')})`,
+        }),
+      ).toBe('c(?:a|o)t'))
+  })
 })
@@ -1,4 +1,28 @@
-import { ListMatcherOptions, qw, regex } from '../index'
+import {
+  AstNode,
+  categorized,
+  codegen,
+  Dialect,
+  Equivalence,
+  ListMatch,
+  ListMatcher,
+  ListMatcherError,
+  ListMatcherErrorCode,
+  ListMatcherOptions,
+  matcher,
+  NormalizationForm,
+  optimize,
+  parse,
+  qw,
+  regex,
+  regexes,
+  render,
+  renderer,
+  source,
+  union,
+  verify,
+} from '../index'
+import { randomizer } from './helpers'
 
 describe('qw', () => {
   test('basic qw', () => expect(qw('foo bar')).toEqual(['foo', 'bar']))
@@ -18,18 +42,6 @@ describe('regex', () => {
     suffix?: string
   }
   describe('basic', () => {
-    const chars = 'abcdefjhijklmnopqrstuvwxyzåß∑≈ç√ƒπµ†0123456789!@#$%^&*()_+-=:;'
-    const rand = (n: number): number => Math.floor(Math.random() * n)
-    function randomWord(max = 8): string {
-      let word = ''
-      for (let i = 0, l = rand(8) + 1; i < l; i++) word += chars.charAt(rand(chars.length))
-      return word
-    }
-    function randomList(n: number, max = 8): string[] {
-      const list = []
-      for (let i = 0; i < n; i++) list.push(randomWord(max))
-      return list
-    }
     const tests: Test[] = [
       { words: ['cat'], pattern: 'cat', suffix: '' },
       { label: 'deduping', words: ['cat', 'cat'], pattern: 'cat', suffix: '' },
@@ -45,6 +57,7 @@ describe('regex', () => {
       { label: 'whitespace escapes', words: qw(' \v\r\t\n\f', ''), pattern: '[\\t-\\r ]' },
       { label: 'whitespace escapes: vertical', words: qw(' \v', ''), pattern: '[\\v ]' },
       { label: 'whitespace escapes: carriage return', words: qw(' \r', ''), pattern: '[\\r ]' },
+      { label: 'NUL in a common prefix', words: ['\0a', '\0b'], pattern: '\\0[ab]' },
       { label: 'whitespace escapes: tab', words: qw(' \t', ''), pattern: '[\\t ]' },
       { label: 'whitespace escapes: newline', words: qw(' \n', ''), pattern: '[\\n ]' },
       { label: 'whitespace escapes: form feed', words: qw(' \f', ''), pattern: '[\\f ]' },
@@ -80,6 +93,17 @@ describe('regex', () => {
         duds: qw('süßer ystävällinen'),
         options: { bound: true },
       },
+      { label: 'astral plane', words: qw('😀 😁 😂 😃'), pattern: '[😀-😃]', suffix: 'u' },
+      { label: 'astral plane prefixes', words: qw('😀😀😀😀😀a 😀😀😀😀😀b'), pattern: '😀{5}[ab]', duds: ['😀'] },
+      { label: 'astral plane suffixes', words: qw('a𠀀 b𠀀 c𠀁'), pattern: '(?:a𠀀|b𠀀|c𠀁)', duds: qw('a𠀁 c𠀀') },
+      {
+        label: 'bounded astral plane',
+        words: qw('𠀀𠀁 𠀂'),
+        duds: qw('𠀀𠀁𠀂 𠀂𠀂'),
+        options: { bound: true },
+      },
+      { label: 'unicode metacharacters', words: qw('] } ü'), pattern: '[\\]}ü]', suffix: 'u' },
+      { label: 'unicode metacharacters in sequence', words: qw('a] b} ü'), pattern: '(?:a\\]|b\\}|ü)' },
       { label: 'finds numbers', words: qw('0123456789', ''), pattern: '\\d' },
       {
         label: 'finds word chars',
@@ -107,9 +131,6 @@ describe('regex', () => {
         pattern: '\\w',
       },
       { label: 'regression *, #', words: qw('* #') },
-      { label: 'long list', words: randomList(200) },
-      { label: 'long list short words', words: randomList(200, 4) },
-      { label: 'long list long words', words: randomList(200, 16) },
     ]
     tests.forEach(({ words, pattern, duds, label, options, suffix }) => {
       const rx = regex(words, options)
@@ -127,6 +148,349 @@ describe('regex', () => {
     })
   })
 
+  describe('random lists match exactly their phrases', () => {
+    const chars = 'abcdefjhijklmnopqrstuvwxyzåß∑≈ç√ƒπµ†0123456789!@#$%^&*()_+-=:; '
+    const random = randomizer(11)
+    const randomList = (n: number, max: number) => {
+      const list = []
+      for (let i = 0; i < n; i++) {
+        let word = ''
+        for (let j = random(max) + 1; j > 0; j--) word += chars.charAt(random(chars.length))
+        list.push(word)
+      }
+      return list
+    }
+    const lists: [string, string[]][] = [
+      ['long list', randomList(200, 8)],
+      ['long list short words', randomList(200, 4)],
+      ['long list long words', randomList(200, 16)],
+    ]
+    const optionSets: ListMatcherOptions[] = [
+      {},
+      { bound: true },
+      { flags: 'i' },
+      { ignoreCase: true },
+      { normalizeWhitespace: true },
+      { mergeSuffixes: true },
+      { substitutions: { '#': '\\d', '@': '[@#]' } },
+    ]
+    lists.forEach(([label, words]) => {
+      optionSets.forEach((opts) => {
+        test(`${label} ${JSON.stringify(opts)}`, () =>
+          expect(verify(words, opts)).toMatchObject({ exact: true, missing: [], extra: [] }))
+      })
+    })
+  })
+
+  describe('graphemes', () => {
+    const tests: Test[] = [
+      { label: 'combining marks', words: ['e\u0301', 'e\u0300', 'e'], pattern: '(?:e\u0301|e\u0300|e)' },
+      { label: 'repeated clusters', words: ['e\u0301'.repeat(6) + 'x'], pattern: '(?:e\u0301){6}x' },
+      { label: 'shared cluster prefix', words: ['e\u0301a', 'e\u0301b'], pattern: 'e\u0301[ab]' },
+      { label: 'emoji sequences', words: ['👍🏽', '👍', '👨‍👩‍👧'], duds: ['👨'] },
+      {
+        label: 'bounded clusters',
+        words: ['cafe\u0301', 'cafe', 'e\u0301x'],
+        duds: ['cafes', 'cafe\u0301s', 'xcafe\u0301', 'ae\u0301x', 'e\u0301xy'],
+        options: { bound: true },
+      },
+    ]
+    tests.forEach(({ words, pattern, duds, label, options }) => {
+      const rx = regex(words, { ...options, graphemes: true })
+      if (pattern) test(label!, () => expect(rx.source).toBe(pattern))
+      for (const w of words) {
+        test(`${label}: ${w} =~ ${rx}`, () => expect(new RegExp(`^(?:${rx.source})$`, rx.flags).test(w)).toBeTruthy())
+      }
+      if (duds) {
+        for (const w of duds) {
+          // unanchored, so that boundaries must keep the phrases from matching within the duds
+          test(`${label}: ${w} !~ ${rx}`, () => expect(rx.test(w)).toBeFalsy())
+        }
+      }
+    })
+  })
+
+  describe('ignoreCase', () => {
+    const tests: Test[] = [
+      { words: qw('cat Cat CAT'), pattern: '[Cc][Aa][Tt]', duds: qw('dog') },
+      { label: 'repetition', words: ['oOOo'], pattern: '[Oo]{4}' },
+      { label: 'mixed', words: qw('cat cAt XY'), options: { ignoreCase: ['cAt'] }, pattern: '(?:XY|[Cc][Aa][Tt])' },
+      { label: 'mixed, not ignored', words: qw('XY xy'), options: { ignoreCase: ['cat'] }, duds: qw('Xy xY') },
+      { label: 'classes', words: qw('a b c'), pattern: '[A-Ca-c]' },
+      { label: 'non-ascii', words: qw('süd'), pattern: '[Ssſ][Üü][Dd]', suffix: 'u' },
+      { label: 'bound', words: qw('cat'), options: { bound: true }, pattern: '\\b[Cc][Aa][Tt]\\b', duds: qw('cats') },
+      { label: 'i flag', words: qw('Cat'), options: { flags: 'i' }, pattern: 'cat', suffix: 'i' },
+    ]
+    tests.forEach(({ words, pattern, duds, label, options, suffix }) => {
+      const rx = regex(words, { ignoreCase: true, ...options })
+      label ??= words.join(', ')
+      if (pattern) test(label, () => expect(rx.source).toBe(pattern))
+      if (suffix) test(`suffix for ${label}`, () => expect(rx.flags).toBe(suffix))
+      for (const w of words) {
+        test(`${label}: ${w} =~ ${rx}`, () => expect(rx.test(w)).toBeTruthy())
+        if (!options?.ignoreCase)
+          test(`${label}: ${w.toUpperCase()} =~ ${rx}`, () => expect(rx.test(w.toUpperCase())).toBeTruthy())
+      }
+      if (duds) {
+        for (const w of duds) {
+          test(`${label}: ${w} !~ ${rx}`, () => expect(rx.test(w)).toBeFalsy())
+        }
+      }
+    })
+  })
+
+  describe('case folding', () => {
+    // whether an expression matches the whole of each string
+    const matches = (rx: RegExp, strings: string[]) => {
+      const whole = new RegExp(`^(?:${rx.source})$`, rx.flags)
+      return strings.map((w) => whole.test(w))
+    }
+    test('sharp s', () => {
+      const rx = regex(['Straße'], { flags: 'i' })
+      expect(rx).toEqual(/stra(?:ss|[ßẞ])e/i)
+      expect(matches(rx, ['strasse', 'STRASSE', 'straße', 'STRAẞE', 'strase'])).toEqual([true, true, true, true, false])
+    })
+    test('sharp s with ignoreCase', () =>
+      expect(matches(regex(['STRASSE'], { ignoreCase: true }), ['Straße', 'STRAẞE', 'strasse'])).toEqual([
+        true,
+        true,
+        true,
+      ]))
+    test('phrases folding alike are one', () => {
+      expect(regex(['Straße', 'STRASSE', 'strasse'], { flags: 'i' })).toEqual(regex(['strasse'], { flags: 'i' }))
+      expect(regex(['ΟΔΟΣ', 'οδος', 'οδοσ'], { flags: 'i' })).toEqual(/οδοσ/iu)
+    })
+    test('final sigma', () =>
+      expect(matches(regex(['ΟΔΟΣ'], { ignoreCase: true }), ['οδος', 'ΟΔΟΣ', 'Οδοσ'])).toEqual([true, true, true]))
+    test('long s and the Kelvin sign', () => expect(regex(['sk'], { ignoreCase: true }).source).toBe('[Ssſ][Kk\u212a]'))
+    test('dotted capital I', () => {
+      expect(regex(['İ'], { flags: 'i' })).toEqual(/(?:i̇|İ)/iu)
+      expect(regex(['kız', 'KIZ'], { flags: 'i' }).source).toBe('k[iı]z')
+    })
+    test('Turkish', () => {
+      expect(regex(['KIZ', 'kız'], { flags: 'i', locale: 'tr' })).toEqual(/k[Iı]z/iu)
+      const rx = regex(['istanbul'], { ignoreCase: true, locale: 'tr' })
+      expect(matches(rx, ['İSTANBUL', 'ISTANBUL', 'istanbul'])).toEqual([true, false, true])
+    })
+    test('ligatures are left alone', () => expect(regex(['ﬁne'], { flags: 'i' })).toEqual(/ﬁne/iu))
+    test('iota subscript', () =>
+      expect(matches(regex(['ᾳ'], { flags: 'i' }), ['ᾼ', 'αι', 'ΑΙ', 'α'])).toEqual([true, true, true, false]))
+    test('verify', () => expect(verify(['Straße', 'İz', 'ΟΔΟΣ', 'ᾳ'], { ignoreCase: true }).exact).toBe(true))
+    test('matcher', () =>
+      expect(
+        matcher(['Straße'], { flags: 'i' })
+          .matchAll('STRASSE or strasse')
+          .map((m) => m.phrase),
+      ).toEqual(['Straße', 'Straße']))
+    test('ListMatcher', () => {
+      const m = new ListMatcher(['Straße'], { ignoreCase: true }).add('strasse', 'ΟΔΟΣ').remove('ΟΔΟΣ')
+      expect(m.regex).toEqual(regex(['Straße'], { ignoreCase: true }))
+    })
+    test('invalid locales', () =>
+      expect(() => regex(['a'], { ignoreCase: true, locale: '!!' })).toThrow(
+        new ListMatcherError('INVALID_OPTION', 'invalid locale: !!'),
+      ))
+  })
+
+  describe('normalize', () => {
+    test('composed', () => expect(regex(['cafe\u0301', 'café'], { normalize: 'NFC' }).source).toBe('café'))
+    test('decomposed', () => expect(regex(['cafe\u0301', 'café'], { normalize: 'NFD' }).source).toBe('cafe\u0301'))
+    test('compatibility', () => expect(regex(['ﬁne', 'fine'], { normalize: 'NFKC' })).toEqual(/fine/))
+    test('not otherwise', () => expect(regex(['cafe\u0301', 'café']).source).toBe('caf(?:e\u0301|é)'))
+    test('matcher', () => expect(matcher(['ﬁne'], { normalize: 'NFKC' }).exec('fine')?.phrases).toEqual(['ﬁne']))
+  })
+
+  describe('ignoreDiacritics', () => {
+    const spellings = ['cafe', 'café', 'cafe\u0301', 'cafè', 'cafe\u0301\u0323', 'çafe']
+    test('every spelling', () => {
+      const rx = regex(['café'], { ignoreDiacritics: true })
+      const whole = new RegExp(`^(?:${rx.source})$`, rx.flags)
+      expect(spellings.filter((w) => !whole.test(w))).toEqual([])
+      expect(['CAFE', 'cafes', 'caf'].filter((w) => whole.test(w))).toEqual([])
+    })
+    test('phrases differing only in marks are one', () =>
+      expect(regex(['café', 'cafe', 'cafè'], { ignoreDiacritics: true })).toEqual(
+        regex(['cafe'], { ignoreDiacritics: true }),
+      ))
+    test('letters without accented forms', () => expect(regex(['-ł'], { ignoreDiacritics: true })).toEqual(/-ł/u))
+    test('Hangul syllables', () => expect(regex(['한국'], { ignoreDiacritics: true })).toEqual(/한국/u))
+    test('ignoreCase', () => {
+      const rx = regex(['né'], { ignoreDiacritics: true, ignoreCase: true })
+      expect(['NE', 'Né', 'nÉ', 'N\u0303e'].filter((w) => !rx.test(w))).toEqual([])
+    })
+    test('bound', () =>
+      expect(regex(['é'], { ignoreDiacritics: true, bound: true }).source).toBe(
+        '(?<![\\p{L}\\p{N}_])[eè-ëēĕėęěȅȇȩḕḗḙḛḝẹẻẽếềểễệ]\\p{M}*(?![\\p{L}\\p{N}_])',
+      ))
+    test('python', () =>
+      expect(source(['x'], { ignoreDiacritics: true, dialect: 'python' })).toBe(
+        '[xẋẍ][\\u0300-\\u036f\\u1ab0-\\u1aff\\u1dc0-\\u1dff\\u20d0-\\u20ff\\ufe20-\\ufe2f]*',
+      ))
+    test('verify', () => expect(verify(['café', 'cat', 'nö'], { ignoreDiacritics: true }).exact).toBe(true))
+    describe('verify compares accented forms as classes', () => {
+      const optionSets: ListMatcherOptions[] = [
+        { ignoreDiacritics: true },
+        { ignoreDiacritics: true, ignoreCase: true },
+        { ignoreDiacritics: true, bound: true, mergeSuffixes: true },
+      ]
+      for (const opts of optionSets) {
+        test(JSON.stringify(opts), () =>
+          expect(verify(['banana', 'Paris', 'crème brûlée'], opts)).toMatchObject({
+            exact: true,
+            missing: [],
+            extra: [],
+          }),
+        )
+      }
+    })
+    test('matcher', () =>
+      expect(
+        matcher(['café', 'thé'], { ignoreDiacritics: true })
+          .matchAll('cafe, the, cafè')
+          .map((m) => m.phrase),
+      ).toEqual(['café', 'thé', 'café']))
+    test('ListMatcher', () => {
+      const m = new ListMatcher(['cafe'], { ignoreDiacritics: true }).add('thé', 'né').remove('né')
+      expect(m.regex).toEqual(regex(['cafe', 'thé'], { ignoreDiacritics: true }))
+    })
+  })
+
+  describe('repetition', () => {
+    const digits = { substitutions: { '#': '\\d' } }
+    const tests: Test[] = [
+      { label: 'single characters', words: ['aaaaab'], pattern: 'a{5}b' },
+      { label: 'short runs are spelled out', words: ['aaab'], pattern: 'aaab' },
+      { label: 'multi-character units', words: ['ab'.repeat(5)], pattern: '(?:ab){5}', duds: ['ab'.repeat(4)] },
+      { label: 'short multi-character runs are spelled out', words: ['ababab'], pattern: 'ababab' },
+      { label: 'units with runs', words: ['aaaaab'.repeat(3)], pattern: '(?:a{5}b){3}' },
+      { label: 'multi-character substitution units', words: ['#.#.#.#'], options: digits, pattern: '(?:\\d\\.){3}\\d' },
+      {
+        label: 'folding not hiding shorter runs',
+        words: ['## #### ##'],
+        options: digits,
+        pattern: '\\d\\d \\d{4} \\d\\d',
+      },
+      { label: 'ranges', words: qw('aa aaa aaaa'), pattern: 'a{2,4}', duds: qw('a aaaaa') },
+      { label: 'short ranges are spelled out', words: qw('aa aaa'), pattern: 'aaa?' },
+      { label: 'ranges of substitutions', words: ['###', '####'], options: digits, pattern: '\\d{3,4}' },
+      {
+        label: 'ranges from alternatives',
+        words: ['##', '###', '####', '#####'],
+        options: digits,
+        pattern: '\\d{2,5}',
+      },
+      { label: 'broken ranges', words: ['##', '####', '#####'], options: digits, pattern: '\\d\\d(?:\\d\\d\\d?)?' },
+      {
+        label: 'ranges of multi-character units',
+        words: ['x' + 'ab'.repeat(5), 'x' + 'ab'.repeat(6)],
+        pattern: 'x(?:ab){5,6}',
+        duds: ['x' + 'ab'.repeat(4)],
+      },
+      {
+        label: 'ranges with suffix merging',
+        words: ['###x', '####x'],
+        options: { ...digits, mergeSuffixes: true },
+        pattern: '\\d{3,4}x',
+      },
+    ]
+    tests.forEach(({ words, pattern, duds, label, options }) => {
+      const rx = regex(words, options)
+      if (pattern) test(label!, () => expect(rx.source).toBe(pattern))
+      if (!options?.substitutions) {
+        for (const w of words) {
+          test(`${label}: ${w} =~ ${rx}`, () => expect(new RegExp(`^(?:${rx.source})$`, rx.flags).test(w)).toBeTruthy())
+        }
+      }
+      if (duds) {
+        for (const w of duds) {
+          test(`${label}: ${w} !~ ${rx}`, () => expect(new RegExp(`^(?:${rx.source})$`, rx.flags).test(w)).toBeFalsy())
+        }
+      }
+    })
+    test('ranges in the syntax tree', () =>
+      expect(parse(['###', '####'], digits).node).toEqual({
+        type: 'repetition',
+        node: { type: 'substitution', pattern: '\\d' },
+        min: 3,
+        max: 4,
+      }))
+    test('ranges in posix', () => expect(source(['###', '####'], { ...digits, dialect: 'posix' })).toBe('\\d{3,4}'))
+  })
+
+  describe('mergeSuffixes', () => {
+    const tests: Test[] = [
+      { words: qw('walking talking walked talked'), pattern: '[tw]alk(?:ed|ing)', duds: qw('walk talks') },
+      { words: qw('fooed fooing bared baring'), pattern: '(?:bar|foo)(?:ed|ing)', duds: qw('fooded bar') },
+      {
+        label: 'bound inflections',
+        words: qw('jump jumps jumped jumping walk walks walked walking talk talks talked talking'),
+        options: { bound: true },
+        pattern: '\\b(?:[tw]alk|jump)(?:ed|ing|s)?\\b',
+        duds: qw('jumpings talkeds'),
+      },
+      {
+        label: 'nothing to merge',
+        words: qw('cat camel coulomb dog e f g h i'),
+        pattern: '(?:c(?:a(?:mel|t)|oulomb)|dog|[e-i])',
+      },
+      { label: 'repetition', words: qw('aaaaab aaaaac'), pattern: 'a{5}[bc]' },
+      { label: 'optional', words: qw('a ab abc b bc c'), pattern: '(?:a(?:bc?)?|bc?|c)', duds: qw('ac ba') },
+      {
+        label: 'substitutions',
+        words: ['##-x', '#-x'],
+        options: { substitutions: { '#': '[#\\d]' } },
+        pattern: '[#\\d]{1,2}-x',
+      },
+      {
+        label: 'ignoreCase',
+        words: qw('Cats cat dogs dog'),
+        options: { ignoreCase: true },
+        pattern: '(?:[Cc][Aa][Tt]|[Dd][Oo][Gg])[Ssſ]?',
+      },
+      {
+        label: 'graphemes',
+        words: ['e\u0301s', 'es', 'as'],
+        options: { graphemes: true },
+        pattern: '(?:e\u0301|a|e)s',
+      },
+    ]
+    tests.forEach(({ words, pattern, duds, label, options }) => {
+      const rx = regex(words, { ...options, mergeSuffixes: true })
+      label ??= words.join(', ')
+      if (pattern) test(label, () => expect(rx.source).toBe(pattern))
+      for (const w of words) {
+        test(`${label}: ${w} =~ ${rx}`, () => expect(new RegExp(`^(?:${rx.source})$`, rx.flags).test(w)).toBeTruthy())
+      }
+      if (duds) {
+        for (const w of duds) {
+          test(`${label}: ${w} !~ ${rx}`, () => expect(new RegExp(`^(?:${rx.source})$`, rx.flags).test(w)).toBeFalsy())
+        }
+      }
+    })
+    test('same language as without merging', () => {
+      const words = qw('a ab abc abcab bab bcab c cab cc ccab')
+      const plain = new RegExp(`^(?:${regex(words).source})$`)
+      const merged = new RegExp(`^(?:${regex(words, { mergeSuffixes: true }).source})$`)
+      // every string of up to five a's, b's, and c's
+      let probes = ['']
+      for (let i = 0; i < 5; i++) {
+        probes = probes.concat(
+          probes
+            .filter((p) => p.length === i)
+            .reduce((acc: string[], p) => acc.concat([p + 'a', p + 'b', p + 'c']), []),
+        )
+      }
+      for (const p of probes) expect([p, merged.test(p)]).toEqual([p, plain.test(p)])
+    })
+    test('categorized', () =>
+      expect(categorized({ a: qw('walked talked'), b: qw('jumped') }, { mergeSuffixes: true })).toEqual(
+        /(?<a>[tw]alked)|(?<b>jumped)/,
+      ))
+  })
+
+  test('ignoreCase with substitutions', () =>
+    expect(regex(['a#'], { ignoreCase: true, substitutions: { '#': '\\d' } }).source).toBe('[Aa]\\d'))
+
   describe('random bits', () => {
     const rx = regex([''])
     test('empty strings are ignored', () => expect(rx.source).toBe('(?!)'))
@@ -180,5 +544,1055 @@ describe('regex', () => {
         }
       }
     })
+    describe('word edges', () => {
+      const digit = { pattern: '\\d', wordLeft: true, wordRight: true }
+      test('bound beside a word character', () =>
+        expect(regex(['#th', 'no. #'], { bound: true, substitutions: { '#': digit } })).toEqual(/\b(?:\dth|no\. \d)\b/))
+      test('only the edges declared', () =>
+        expect(regex(['#-#'], { bound: true, substitutions: { '#': { pattern: '\\d', wordRight: true } } })).toEqual(
+          /\d-\d\b/,
+        ))
+      test('no boundaries without a declaration', () =>
+        expect(regex(['#th'], { bound: true, substitutions: { '#': '\\d' } })).toEqual(/\dth\b/))
+      test('unicode boundaries', () =>
+        expect(regex(['#ß'], { bound: true, substitutions: { '#': digit } }).source).toBe(
+          '(?<![\\p{L}\\p{N}_])\\dß(?![\\p{L}\\p{N}_])',
+        ))
+      test('verified', () =>
+        expect(verify(['#th', '##'], { bound: true, substitutions: { '#': digit } }).exact).toBe(true))
+    })
+    describe('validation', () => {
+      const invalid: [string, Record<string, string>, string][] = [
+        ['empty keys', { '': 'a' }, 'a substitution key cannot be empty'],
+        ['overlapping keys', { ab: 'x', bc: 'y' }, 'the substitution keys ab and bc overlap ambiguously'],
+        ['unbalanced parentheses', { '#': '(?:a' }, 'the substitution for # has unbalanced parentheses: (?:a'],
+        ['closing parentheses', { '#': 'a)(' }, 'the substitution for # has unbalanced parentheses: a)('],
+        ['invalid patterns', { '#': 'a{2,1}' }, 'the substitution for # is not a valid pattern: a{2,1}'],
+        ['capture groups', { '#': '(a)' }, 'the substitution for # has capture groups'],
+        ['named groups', { '#': '(?<n>a)' }, 'the substitution for # has capture groups'],
+        ['backreferences', { '#': '(?:a)\\1' }, 'the substitution for # has backreferences'],
+        ['named backreferences', { '#': '\\k<n>' }, 'the substitution for # has backreferences'],
+      ]
+      for (const [label, substitutions, message] of invalid) {
+        test(label, () => expect(() => regex(['#'], { substitutions })).toThrow(message))
+      }
+      test('missing patterns', () =>
+        expect(() => regex(['#'], { substitutions: { '#': null } } as unknown as ListMatcherOptions)).toThrow(
+          new ListMatcherError('INVALID_SUBSTITUTION', 'the substitution for # is not a pattern'),
+        ))
+      test('backreferences with capture', () =>
+        expect(() => regex(['#'], { capture: true, substitutions: { '#': '(a)\\1' } })).toThrow(
+          new ListMatcherError(
+            'INVALID_SUBSTITUTION',
+            'the substitution for # has capture groups, which would renumber those of the expression',
+          ),
+        ))
+      test('keys within keys', () =>
+        expect(regex(['n-new'], { substitutions: { n: '\\d', new: '\\w' } })).toEqual(/\d-\w/))
+      test('groups that do not capture', () =>
+        expect(regex(['#'], { substitutions: { '#': '(?:a|b)(?<=b)(?!c)\\(' } })).toEqual(/(?:a|b)(?<=b)(?!c)\(/))
+      test('parentheses in classes', () => expect(regex(['#'], { substitutions: { '#': '[()]' } })).toEqual(/[()]/))
+      test('alternations are grouped', () =>
+        expect(regex(['x#y'], { substitutions: { '#': 'a|b' } })).toEqual(/x(?:a|b)y/))
+      test('POSIX groups all capture', () =>
+        expect(source(['x#'], { dialect: 'posix', substitutions: { '#': '(a|b)' } })).toBe('x(a|b)'))
+      test('but refer back to nothing', () =>
+        expect(() => source(['x#'], { dialect: 'posix', substitutions: { '#': '(a)\\1' } })).toThrow(
+          'the substitution for # has backreferences',
+        ))
+      test('escapes in classes do not refer back', () =>
+        expect(regex(['#'], { substitutions: { '#': '[\\1]' } })).toEqual(/[\1]/))
+      test('other dialects are not compiled', () =>
+        expect(source(['#'], { dialect: 'pcre', substitutions: { '#': 'a++' } })).toBe('a++'))
+    })
+  })
+
+  describe('equivalences', () => {
+    const matches = (rx: RegExp, strings: string[]) => {
+      const whole = new RegExp(`^(?:${rx.source})$`, rx.flags)
+      return strings.map((w) => whole.test(w))
+    }
+    const dashes: Equivalence = { characters: '-–—' }
+    const separator: Equivalence = { characters: '-', optional: true, whiteSpace: true }
+    test('interchangeable phrases are one', () =>
+      expect(regex(['1-2', '1–2', '1—2'], { equivalences: [dashes] })).toEqual(
+        regex(['1-2'], { equivalences: [dashes] }),
+      ))
+    test('merged into classes', () =>
+      expect(regex(['1-2', '1–3', '1.4'], { equivalences: ['-–—'] }).source).toBe('1(?:[\\-–—][23]|\\.4)'))
+    test('optional separators', () =>
+      expect(
+        matches(regex(['e-mail'], { equivalences: [separator] }), ['e-mail', 'email', 'e mail', 'e \t mail', 'e–mail']),
+      ).toEqual([true, true, true, true, false]))
+    test('optional but not whitespace', () =>
+      expect(regex(['e-mail'], { equivalences: [{ characters: '-–', optional: true }] })).toEqual(/e[\-–]?mail/u))
+    test('whitespace but not optional', () =>
+      expect(regex(['e-mail'], { equivalences: [{ characters: '-', whiteSpace: true }] })).toEqual(/e(?:-|\s+)mail/))
+    test('phrases of nothing but optional separators are dropped', () => {
+      const equivalences: Equivalence[] = [{ characters: '-', optional: true }]
+      expect(regex(['-', 'a'], { equivalences })).toEqual(/a/)
+      expect(regex(['-', 'a'], { equivalences }).exec('a')?.[0]).toBe('a')
+      expect(verify(['-', '--', 'a'], { equivalences }).exact).toBe(true)
+      expect(new ListMatcher(['a'], { equivalences }).add('-').regex).toEqual(/a/)
+      expect(() => regex(['-'], { equivalences, strict: true })).toThrow('there are no phrases to match')
+    })
+    test('optional separators are not made optional again', () =>
+      expect(regex(['a-', 'a'], { equivalences: [separator] })).toEqual(/a(?:-|\s+)?/))
+    test('ignoreCase', () =>
+      expect(
+        matches(regex(['Äpfel'], { equivalences: ['aä'], ignoreCase: true }), ['apfel', 'Apfel', 'ÄPFEL']),
+      ).toEqual([true, true, true]))
+    test('folded sets', () =>
+      expect(regex(['apfel', 'ÄPFEL'], { equivalences: ['AÄ'], flags: 'i' })).toEqual(/[aä]pfel/iu))
+    test('bound', () =>
+      expect(regex(['e-mail', '-ish'], { equivalences: [separator], bound: true })).toEqual(
+        /(?:(?:-|\s+)?ish|\be(?:-|\s+)?mail)\b/,
+      ))
+    test('placeholders are not interchangeable', () =>
+      expect(
+        matches(regex(['#a'], { equivalences: ['\u0080a'], substitutions: { '#': '\\d' } }), ['1a', '1\u0080', 'aa']),
+      ).toEqual([true, true, false]))
+    test('verified', () =>
+      expect(verify(['e-mail', "don't"], { equivalences: [separator, "'’"] })).toEqual({
+        regex: /(?:don['’]t|e(?:-|\s+)?mail)/u,
+        exact: true,
+        missing: [],
+        extra: [],
+      }))
+    test('matcher', () => {
+      const m = matcher(['e-mail', 'mail'], { equivalences: [separator], flags: 'g' })
+      expect(Array.from(m.matchAll('email, e mail, mail')).map((match) => [match.index, match.phrase])).toEqual([
+        [0, 'e-mail'],
+        [7, 'e-mail'],
+        [15, 'mail'],
+      ])
+    })
+    test('ListMatcher', () => {
+      const options: ListMatcherOptions = { equivalences: [separator, "'’"] }
+      const m = new ListMatcher(['cat'], options)
+      m.add("don't", 'e-mail')
+      expect(m.regex).toEqual(regex(['cat', "don't", 'e-mail'], options))
+      m.remove("don't")
+      expect(m.regex).toEqual(regex(['cat', 'e-mail'], options))
+    })
+    describe('validation', () => {
+      const invalid: [string, (string | Equivalence)[], ListMatcherOptions, string][] = [
+        ['empty sets', [''], {}, 'an equivalence must have a string of characters'],
+        ['sets without characters', [{} as Equivalence], {}, 'an equivalence must have a string of characters'],
+        ['shared characters', ['ab', 'bc'], {}, 'the character b is in more than one equivalence'],
+        [
+          'sets folding alike',
+          ['a', 'A'],
+          { ignoreCase: true },
+          'the character a is in more than one equivalence once',
+        ],
+      ]
+      for (const [label, equivalences, options, message] of invalid) {
+        test(label, () => {
+          expect(() => regex(['a'], { ...options, equivalences })).toThrow(message)
+          expect(() => regex(['a'], { ...options, equivalences })).toThrow(ListMatcherError)
+        })
+      }
+      test('sets folding alike with case', () => expect(regex(['a'], { equivalences: ['a', 'A'] })).toEqual(/a/))
+    })
+  })
+
+  describe('glob', () => {
+    const glob: ListMatcherOptions = { glob: true }
+    const matches = (rx: RegExp, strings: string[]) => {
+      const whole = new RegExp(`^(?:${rx.source})$`, rx.flags)
+      return strings.map((w) => whole.test(w))
+    }
+    test('braces', () => expect(regex(['col{o,ou}r'], glob)).toEqual(regex(['color', 'colour'])))
+    test('nested braces', () => expect(regex(['x{a,{b,c}d}'], glob)).toEqual(regex(['xa', 'xbd', 'xcd'])))
+    test('sets merge with plain phrases', () =>
+      expect(regex(['gr[ae]y', 'gr[io]t', 'grub'], glob)).toEqual(/gr(?:[ae]y|[io]t|ub)/))
+    test('ranges', () => {
+      expect(regex(['[a-c]x', 'dx'], glob)).toEqual(/[a-d]x/)
+      expect(regex(['[-z]', '[a-]'], glob)).toEqual(/[\-az]/)
+    })
+    test('wildcards', () =>
+      expect(matches(regex(['b?t'], glob), ['bat', 'b t', 'bt', 'baat'])).toEqual([true, true, false, false]))
+    test('escapes', () => expect(regex(['\\?', 'a\\[b]', '\\{x\\}', '\\\\'], glob)).toEqual(/(?:\{x}|a\[b]|[?\\])/))
+    test('without glob', () => expect(regex(['a?{b,c}'])).toEqual(/a\?\{b,c}/))
+    test('ignoreCase', () => expect(regex(['[A-C]x'], { ...glob, ignoreCase: true })).toEqual(/[A-Ca-c][Xx]/))
+    test('the i flag', () => expect(regex(['[A-C]x', 'bX'], { ...glob, flags: 'i' })).toEqual(/[a-c]x/i))
+    test('normalizeWhitespace', () =>
+      expect(regex([' a ? b '], { ...glob, normalizeWhitespace: true })).toEqual(/a\s+.\s+b/))
+    test('substitutions', () => expect(regex(['#?x'], { ...glob, substitutions: { '#': '\\d' } })).toEqual(/\d.x/))
+    test('bound', () =>
+      expect(regex(['?at', '[bc]at', '[.x]y'], { ...glob, bound: true })).toEqual(/(?:.at|[.x]y|\b[bc]at)\b/))
+    test('dialects', () => expect(source(['a?b'], { ...glob, dialect: 'posix' })).toBe('a.b'))
+    test('the syntax tree', () =>
+      expect(parse(['?'], glob)).toEqual({ type: 'pattern', node: { type: 'anyCharacter' }, flags: '' }))
+    test('verified', () =>
+      expect(verify(['col{o,ou}r', 'b?t'], glob)).toEqual({
+        regex: /(?:b.t|colou?r)/,
+        exact: true,
+        missing: [],
+        extra: [],
+      }))
+    test('matcher', () => {
+      const m = matcher(['col{o,ou}r', 'cat'], { ...glob, flags: 'g' })
+      expect(Array.from(m.matchAll('colour color cat')).map((match) => [match.index, match.phrase])).toEqual([
+        [0, 'col{o,ou}r'],
+        [7, 'col{o,ou}r'],
+        [13, 'cat'],
+      ])
+    })
+    test('ListMatcher', () => {
+      const m = new ListMatcher(['cat'], glob)
+      m.add('col{o,ou}r', 'color')
+      expect(m.regex).toEqual(regex(['cat', 'col{o,ou}r', 'color'], glob))
+      m.remove('col{o,ou}r')
+      expect(m.regex).toEqual(regex(['cat', 'color']))
+    })
+    test('categorized', () =>
+      expect(categorized({ a: ['col{o,ou}r'], b: ['colour', 'x'] }, glob)).toEqual(/(?<a>colou?r)|(?<b>x)/))
+    describe('invalid phrases', () => {
+      const invalid: [string, string][] = [
+        ['a{b', 'the phrase a{b has an unclosed brace'],
+        ['a}b', 'the phrase a}b has an unbalanced brace'],
+        ['[ab', 'the phrase [ab has an unclosed set'],
+        ['{[}]', 'the phrase {[}] has an unclosed brace'],
+        ['a\\', 'the phrase a\\ has a trailing backslash'],
+        ['[]', 'the phrase [] has an empty set'],
+        ['[b-a]', 'the phrase [b-a] has a range out of order'],
+      ]
+      for (const [phrase, message] of invalid) {
+        test(phrase, () => {
+          expect(() => regex([phrase], glob)).toThrow(message)
+          expect(() => regex([phrase], glob)).toThrow(new ListMatcherError('INVALID_PHRASE', message))
+        })
+      }
+    })
+  })
+
+  describe('custom boundaries', () => {
+    const hyphenated: ListMatcherOptions = { bound: /[\w'-]/ }
+    test('a character class', () =>
+      expect(regex(['rock-n-roll', "don't", '-ish'], hyphenated)).toEqual(
+        /(?<![\w'-])(?:-ish|don't|rock-n-roll)(?![\w'-])/,
+      ))
+    test('matches whole words', () => {
+      const rx = new RegExp(regex(['well-known', 'known'], hyphenated).source, 'g')
+      expect('well-known, known-ish, known'.match(rx)).toEqual(['well-known', 'known'])
+    })
+    test('the u flag of the class', () =>
+      expect(regex(['cat'], { bound: /[\p{L}-]/u })).toEqual(/(?<![\p{L}-])cat(?![\p{L}-])/u))
+    test('a predicate leaves out boundaries', () =>
+      expect(regex(['東京', 'cat', '-x'], { bound: (c) => !/\p{Script=Han}/u.test(c) })).toEqual(
+        /(?:(?<![\p{L}\p{N}_])cat(?![\p{L}\p{N}_])|-x(?![\p{L}\p{N}_])|東京)/u,
+      ))
+    test('a predicate cannot add boundaries', () =>
+      expect(regex(['-x'], { bound: (c) => c === '-' || /\w/.test(c) })).toEqual(/-x\b/))
+    test('substitutions', () =>
+      expect(regex(['#-a'], { ...hyphenated, substitutions: { '#': { pattern: '\\d', wordLeft: true } } })).toEqual(
+        /(?<![\w'-])\d-a(?![\w'-])/,
+      ))
+    test('dialects without lookarounds', () => {
+      expect(source(['cat'], { ...hyphenated, dialect: 're2' })).toBe("(?:^|[^\\w'-])cat(?:[^\\w'-]|$)")
+      expect(source(['cat'], { bound: /\w/, dialect: 'posix' })).toBe('(^|\\W)cat(\\W|$)')
+      expect(() => source(['cat'], { bound: /\w|-/, dialect: 're2' })).toThrow(
+        new ListMatcherError(
+          'INVALID_OPTION',
+          'the bound option must be a character class or shorthand in a dialect without lookarounds, not \\w|-',
+        ),
+      )
+    })
+    test('the syntax tree', () =>
+      expect(parse(['a'], { bound: /[a-]/ }).node).toEqual({
+        type: 'sequence',
+        nodes: [
+          { type: 'boundary', side: 'left', unicode: false, wordCharacter: '[a-]' },
+          { type: 'literal', codePoint: 97 },
+          { type: 'boundary', side: 'right', unicode: false, wordCharacter: '[a-]' },
+        ],
+      }))
+    test('verified', () => expect(verify(['a-b', 'c'], hyphenated).exact).toBe(true))
+    test('ListMatcher', () => {
+      const m = new ListMatcher(['cat'], { bound: /[\p{L}-]/u })
+      m.add('dög')
+      expect(m.regex).toEqual(regex(['cat', 'dög'], { bound: /[\p{L}-]/u }))
+    })
+  })
+
+  describe('anchor', () => {
+    test('the string', () => expect(regex(qw('cat dog'), { anchor: 'string', flags: 'm' })).toEqual(/^(?:cat|dog)$/))
+    test('each line', () => expect(regex(qw('cat dog'), { anchor: 'line' })).toEqual(/^(?:cat|dog)$/m))
+    test('a single phrase', () => expect(regex(['cat'], { anchor: 'string' })).toEqual(/^cat$/))
+    test('capture', () => expect(regex(['cat'], { anchor: 'string', capture: true })).toEqual(/^(cat)$/))
+    test('dialects', () =>
+      expect(source(qw('cat dog'), { anchor: 'line', dialect: 'pcre' })).toBe('(?m:^(?:cat|dog)$)'))
+    test('categorized', () =>
+      expect(categorized({ a: ['cat'], b: ['dog'] }, { anchor: 'line' })).toEqual(/^(?:(?<a>cat)|(?<b>dog))$/m))
+    test('matcher', () =>
+      expect(
+        Array.from(matcher(qw('cat dog'), { anchor: 'line' }).matchAll('cat\ncats\ndog')).map((m) => m.index),
+      ).toEqual([0, 9]))
+    test('verified', () => expect(verify(qw('cat cats'), { anchor: 'string' }).exact).toBe(true))
+    test('the syntax tree', () =>
+      expect(parse(['a'], { anchor: 'string' }).node).toEqual({
+        type: 'sequence',
+        nodes: [
+          { type: 'anchor', side: 'start' },
+          { type: 'literal', codePoint: 97 },
+          { type: 'anchor', side: 'end' },
+        ],
+      }))
+  })
+
+  describe('fuzzy', () => {
+    const fuzzy: ListMatcherOptions = { fuzzy: { maxEdits: 1 } }
+    const swaps: ListMatcherOptions = { fuzzy: { maxEdits: 1, transpositions: true } }
+    const matches = (rx: RegExp, strings: string[]) => {
+      const whole = new RegExp(`^(?:${rx.source})$`, rx.flags)
+      return strings.map((w) => whole.test(w))
+    }
+    const typos = qw('color colr colour cilor coolr clor oclor colro')
+    test('one edit', () =>
+      expect(matches(regex(['color'], fuzzy), typos)).toEqual([true, true, true, true, false, true, false, false]))
+    test('transpositions', () =>
+      expect(matches(regex(['color'], swaps), typos)).toEqual([true, true, true, true, true, true, true, true]))
+    test('no edits', () => expect(regex(['cat'], { fuzzy: { maxEdits: 0 } })).toEqual(/cat/))
+    test('edges only when anchored', () => {
+      expect(regex(['ab'], fuzzy)).toEqual(/(?:a(?:b|.b|[^b\n\r\u2028\u2029])|[ab]|[^a\n\r\u2028\u2029]b)/)
+      expect(regex(['ab'], { ...fuzzy, anchor: 'string' })).toEqual(
+        /^(?:a(?:b.|b|[^b\n\r\u2028\u2029]b|[^b\n\r\u2028\u2029])|[ab]|[^a\n\r\u2028\u2029]a?b)$/,
+      )
+    })
+    test('single characters', () => expect(regex(['a'], fuzzy)).toEqual(/(?:a|[^a\n\r\u2028\u2029])/))
+    test('boundaries stay at the edges', () =>
+      expect(regex(['ab'], { ...fuzzy, bound: true })).toEqual(
+        /\b(?:a(?:b|.b|[^b\n\r\u2028\u2029])|[ab]|[^a\n\r\u2028\u2029]b)\b/,
+      ))
+    test('ignoreCase', () =>
+      expect(regex(['ab'], { ...fuzzy, ignoreCase: true })).toEqual(
+        /(?:[Aa](?:B|b|.[Bb]|[^Bb\n\r\u2028\u2029])|[ABab]|[^Aa\n\r\u2028\u2029][Bb])/,
+      ))
+    test('typos are other characters', () => {
+      expect(regex(['a'], { ...fuzzy, flags: 's' })).toEqual(/(?:a|[^a])/s)
+      expect(source(['a'], { ...fuzzy, dialect: 'java' })).toBe('(?:a|[^a\\n\\r\\u0085\\u2028\\u2029])')
+      expect(source([']'], { ...fuzzy, dialect: 'posix' })).toBe('(]|[^]])')
+    })
+    test('edges left by deletions are bounded as they would be', () =>
+      expect(regex(['-a'], { ...fuzzy, bound: true })).toEqual(
+        /(?:-(?:a|.a|[^a\n\r\u2028\u2029])\b|\ba\b|-|[^\-\n\r\u2028\u2029]a\b)/,
+      ))
+    describe('exact matches win', () => {
+      const found = (phrases: string[], text: string, options: ListMatcherOptions = {}) => {
+        const match = matcher(phrases, { ...fuzzy, ...options }).exec(text)!
+        return [match.text, match.distance]
+      }
+      test('over deletions', () => expect(found(['-a', 'é-'], '-a', { bound: true })).toEqual(['-a', 0]))
+      test('over insertions', () => expect(found(['cat'], 'catt')).toEqual(['cat', 0]))
+      test('over substitutions', () => expect(found(['cat', 'cots'], 'cots')).toEqual(['cots', 0]))
+      test('verified', () => expect(verify(['-a', 'é-'], { ...fuzzy, bound: true }).exact).toBe(true))
+    })
+    test('verified', () => expect(verify(qw('cat cot dog'), swaps).exact).toBe(true))
+    test('too many edits', () =>
+      expect(() => regex(['cat'], { fuzzy: { maxEdits: 2 } })).toThrow(
+        new ListMatcherError('INVALID_OPTION', 'fuzzy matching allows at most one edit, not 2'),
+      ))
+    describe('matcher', () => {
+      const m = matcher(['cat', 'cot', ['dog', 1]], swaps)
+      const found = (text: string) => {
+        const match = m.exec(text)!
+        return [match.phrases, match.distance]
+      }
+      test('exact', () => expect(found('cat')).toEqual([['cat'], 0]))
+      test('nearest', () => expect(found('cut')).toEqual([['cat', 'cot'], 1]))
+      test('transposed', () => expect(found('odg')).toEqual([['dog'], 1]))
+      test('payloads', () => expect(m.exec('dg')!.payloads).toEqual([1]))
+      test('substitutions', () =>
+        expect(
+          matcher(['#x'], { ...fuzzy, substitutions: { '#': '\\d' } })
+            .matchAll('1x 2y')
+            .map(({ text, distance }) => [text, distance]),
+        ).toEqual([
+          ['1x', 0],
+          ['2y', 1],
+        ]))
+      test('no distance without fuzzy', () => expect(matcher(['cat']).exec('cat')).not.toHaveProperty('distance'))
+    })
+    test('ListMatcher', () => {
+      const m = new ListMatcher(['cat', 'cot'], fuzzy)
+      m.remove('cot')
+      expect(m.regex).toEqual(regex(['cat'], fuzzy))
+      m.add('cut')
+      expect(m.regex).toEqual(regex(['cat', 'cut'], fuzzy))
+    })
+    test('categorized', () =>
+      expect(categorized({ a: ['ab'], b: ['cd'] }, fuzzy)).toEqual(
+        /(?<a>(?:a(?:b|.b|[^b\n\r\u2028\u2029])|[ab]|[^a\n\r\u2028\u2029]b))|(?<b>(?:c(?:d|.d|[^d\n\r\u2028\u2029])|[cd]|[^c\n\r\u2028\u2029]d))/,
+      ))
+  })
+})
+
+describe('categorized', () => {
+  test('groups', () => {
+    const rx = categorized({ color: qw('red tan'), animal: qw('cat cow') }, { bound: true, flags: 'g' })
+    const found = Array.from('a tan cow and a red cat'.matchAll(rx)).map((m) =>
+      Object.entries(m.groups!).find(([, v]) => v !== undefined),
+    )
+    expect(found).toEqual([
+      ['color', 'tan'],
+      ['animal', 'cow'],
+      ['color', 'red'],
+      ['animal', 'cat'],
+    ])
+  })
+  test('first category wins', () =>
+    expect(categorized({ a: qw('x y'), b: qw('y z'), c: qw('x') })).toEqual(/(?<a>[xy])|(?<b>z)|(?<c>(?!))/))
+  test('caseless phrases', () =>
+    expect(categorized({ a: qw('Cat'), b: qw('cat') }, { ignoreCase: ['cat'] })).toEqual(
+      /(?<a>[Cc][Aa][Tt])|(?<b>(?!))/,
+    ))
+  test('substitutions', () =>
+    expect(categorized({ zip: ['#####'], phone: ['###-####'] }, { substitutions: { '#': '\\d' } })).toEqual(
+      /(?<zip>\d{5})|(?<phone>\d{3}-\d{4})/,
+    ))
+  test('unicode', () => expect(categorized({ a: qw('süß'), b: qw('] x') })).toEqual(/(?<a>süß)|(?<b>[\]x])/u))
+  test('capture', () => expect(categorized({ a: qw('x') }, { capture: true })).toEqual(/((?<a>x))/))
+  test('non-ascii group names', () => expect(categorized({ färg: qw('röd') })).toEqual(/(?<färg>röd)/u))
+  test('bad group names', () => expect(() => categorized({ 'a b': qw('x') })).toThrow('invalid group name: a b'))
+})
+
+describe('codegen', () => {
+  // the exports of a generated javascript module
+  const load = (module: string) => {
+    const names = Array.from(module.matchAll(/^export const (\w+)/gm), (m) => m[1])
+    return new Function(`${module.replace(/^export /gm, '')}\nreturn { ${names.join(', ')} }`)()
+  }
+  test('javascript', () => {
+    const opts = { bound: true, flags: 'i' }
+    const exports = load(codegen({ animals: qw('Cat camel dog cat'), colors: qw('red tan') }, opts, 'js'))
+    expect(exports.animals).toEqual(regex(qw('Cat camel dog cat'), opts))
+    expect(exports.colors).toEqual(regex(qw('red tan'), opts))
+    expect(exports.animalsPhrases).toEqual(['Cat', 'camel', 'cat', 'dog'])
+    expect(Object.isFrozen(exports.animalsPhrases)).toBe(true)
+  })
+  test('awkward characters', () => {
+    const words = ['a"b', '\\', '/', 'é\n', '\u2028']
+    const exports = load(codegen({ odd: words }, {}, 'js'))
+    expect(exports.odd).toEqual(regex(words))
+    expect(exports.oddPhrases).toEqual([...words].sort())
+  })
+  test('stable', () =>
+    expect(codegen({ a: qw('x y z') }, { bound: true })).toBe(codegen({ a: qw('z y x x') }, { bound: true })))
+  test('empty list', () =>
+    expect(codegen({ none: [] }, {}, 'js')).toContain('export const nonePhrases = Object.freeze([])'))
+  test('invalid names', () => {
+    expect(() => codegen({ 'a-b': [] })).toThrow('invalid name: a-b')
+    expect(() => codegen({ class: [] })).toThrow('invalid name: class')
+  })
+  test('colliding names', () => {
+    expect(() => codegen({ a: [], aPhrases: [] })).toThrow('aPhrases would be exported twice')
+    expect(() => codegen({ a: [], APhrase: [] })).toThrow('APhrase would be exported twice')
+    expect(() => codegen({ a: [], APhrase: [] }, {}, 'js')).not.toThrow()
+  })
+  test('javascript only', () => expect(() => codegen({ a: [] }, { dialect: 'pcre' })).toThrow('use source instead'))
+})
+
+describe('source', () => {
+  type DialectTest = {
+    label: string
+    words: string[]
+    options?: ListMatcherOptions
+    expected: Partial<Record<Dialect, string>>
+  }
+  const tests: DialectTest[] = [
+    {
+      label: 'simple',
+      words: qw('cat camel dog'),
+      expected: { javascript: '(?:ca(?:mel|t)|dog)', pcre: '(?:ca(?:mel|t)|dog)', posix: '(ca(mel|t)|dog)' },
+    },
+    {
+      label: 'metacharacters',
+      words: qw('a.b (x) {1} q& a[ a\\'),
+      expected: {
+        pcre: '(?:\\(x\\)|\\{1\\}|a(?:\\.b|[\\[\\\\])|q&)',
+        java: '(?:\\(x\\)|\\{1\\}|a(?:\\.b|[\\[\\\\])|q&)',
+        posix: '(\\(x\\)|\\{1}|a(\\.b|[[\\])|q&)',
+      },
+    },
+    {
+      label: 'character class metacharacters',
+      words: qw('a& a] a^ a-'),
+      expected: { pcre: 'a[&\\-\\]\\^]', java: 'a[\\&\\-\\]\\^]', posix: 'a[]&^-]' },
+    },
+    { label: 'just ^ and -', words: qw('^ -'), expected: { posix: '[-^]', python: '[\\-\\^]' } },
+    {
+      label: 'controls',
+      words: ['\t', '\v', '\0'],
+      expected: { javascript: '[\\0\\t\\v]', python: '[\\x00\\t\\x0b]', posix: '[\0\t\v]' },
+    },
+    {
+      label: 'shorthands',
+      words: qw('0123456789', ''),
+      expected: { pcre: '\\d', java: '\\d', re2: '\\d', python: '[0-9]', posix: '[0-9]' },
+    },
+    {
+      label: 'ascii boundaries',
+      words: qw('cat'),
+      options: { bound: true },
+      expected: { python: '\\bcat\\b', re2: '\\bcat\\b', posix: '(^|[^[:alnum:]_])cat([^[:alnum:]_]|$)' },
+    },
+    {
+      label: 'unicode boundaries',
+      words: qw('süß'),
+      options: { bound: true },
+      expected: {
+        java: '(?<![\\p{L}\\p{N}_])süß(?![\\p{L}\\p{N}_])',
+        python: '(?<!\\w)süß(?!\\w)',
+        re2: '(?:^|[^\\p{L}\\p{N}_])süß(?:[^\\p{L}\\p{N}_]|$)',
+      },
+    },
+    {
+      label: 'grapheme boundaries',
+      words: qw('süß'),
+      options: { bound: true, graphemes: true },
+      expected: {
+        java: '(?<![\\p{L}\\p{M}\\p{N}_])süß(?![\\p{L}\\p{M}\\p{N}_])',
+        python:
+          '(?<![\\w\\u0300-\\u036f\\u1ab0-\\u1aff\\u1dc0-\\u1dff\\u20d0-\\u20ff\\ufe20-\\ufe2f])süß(?![\\w\\u0300-\\u036f\\u1ab0-\\u1aff\\u1dc0-\\u1dff\\u20d0-\\u20ff\\ufe20-\\ufe2f])',
+        re2: '(?:^|[^\\p{L}\\p{M}\\p{N}_])süß(?:[^\\p{L}\\p{M}\\p{N}_]|$)',
+      },
+    },
+    {
+      label: 'whitespace',
+      words: ['cat  dog'],
+      options: { normalizeWhitespace: true },
+      expected: { pcre: 'cat\\s+dog', posix: 'cat[[:space:]]+dog' },
+    },
+    { label: 'nothing', words: [], expected: { javascript: '(?!)', pcre: '(?!)', re2: '\\b\\B', posix: 'a^' } },
+    {
+      label: 'flags',
+      words: qw('Cat'),
+      options: { flags: 'gimsuy' },
+      expected: { javascript: 'cat', pcre: '(?ims:cat)', python: '(?ims:cat)', posix: '[Cc][Aa][Tt]' },
+    },
+    { label: 'capture', words: qw('cat'), options: { capture: true }, expected: { java: '(cat)', posix: '(cat)' } },
+    {
+      label: 'repetition',
+      words: ['e\u0301'.repeat(6)],
+      options: { graphemes: true },
+      expected: { pcre: '(?:e\u0301){6}', posix: '(e\u0301){6}' },
+    },
+  ]
+  for (const { label, words, options, expected } of tests) {
+    for (const [dialect, pattern] of Object.entries(expected)) {
+      test(`${label} in ${dialect}`, () =>
+        expect(source(words, { ...options, dialect: dialect as Dialect })).toBe(pattern))
+    }
+  }
+  test('regex refuses other dialects', () =>
+    expect(() => regex(['cat'], { dialect: 'pcre' })).toThrow(
+      'a RegExp cannot be made in the pcre dialect; use source instead',
+    ))
+  test('categorized refuses other dialects', () => expect(() => categorized({}, { dialect: 'posix' })).toThrow())
+})
+
+describe('parse and render', () => {
+  test('node types', () =>
+    expect(
+      parse(['a  b', 'a.b', 'aaaab', '#b'], { bound: true, normalizeWhitespace: true, substitutions: { '#': '\\d' } }),
+    ).toEqual({
+      type: 'pattern',
+      flags: '',
+      node: {
+        type: 'sequence',
+        nodes: [
+          {
+            type: 'alternation',
+            alternatives: [
+              {
+                type: 'sequence',
+                nodes: [
+                  { type: 'boundary', side: 'left', unicode: false },
+                  { type: 'literal', codePoint: 97 },
+                  {
+                    type: 'alternation',
+                    alternatives: [
+                      { type: 'repetition', node: { type: 'literal', codePoint: 97 }, min: 3, max: 3 },
+                      { type: 'literal', codePoint: 46 },
+                      { type: 'whiteSpace' },
+                    ],
+                  },
+                ],
+              },
+              { type: 'substitution', pattern: '\\d' },
+            ],
+          },
+          { type: 'literal', codePoint: 98 },
+          { type: 'boundary', side: 'right', unicode: false },
+        ],
+      },
+    }))
+  test('optional', () =>
+    expect(parse(qw('cat cats')).node).toEqual({
+      type: 'sequence',
+      nodes: [
+        { type: 'literal', codePoint: 99 },
+        { type: 'literal', codePoint: 97 },
+        { type: 'literal', codePoint: 116 },
+        { type: 'optional', node: { type: 'literal', codePoint: 115 } },
+      ],
+    }))
+  test('capture and flags', () =>
+    expect(parse(['ü'], { capture: true, flags: 'gi' })).toEqual({
+      type: 'pattern',
+      node: { type: 'capture', node: { type: 'literal', codePoint: 252 } },
+      flags: 'giu',
+    }))
+  test('empty list', () => expect(parse([]).node).toEqual({ type: 'fail' }))
+  test('regex renders with the javascript renderer', () => {
+    const lists = [qw('cat camel coulomb dog e f g h i'), qw('] ^ - \\ [ süß'), ['foo bar', 'foo  baz', 'x*y']]
+    const options: ListMatcherOptions[] = [{}, { bound: true }, { normalizeWhitespace: true, flags: 'i' }]
+    for (const words of lists) {
+      for (const opts of options) expect(render(parse(words, opts))).toBe(regex(words, opts).source)
+    }
+  })
+  test('source renders with the dialect renderer', () => {
+    const dialects: Dialect[] = ['pcre', 'python', 're2', 'java', 'posix']
+    for (const dialect of dialects) {
+      const opts: ListMatcherOptions = { dialect, bound: true, flags: 'i' }
+      expect(render(parse(qw('cat camel ]x[ a-b'), opts), renderer(dialect))).toBe(
+        source(qw('cat camel ]x[ a-b'), opts),
+      )
+    }
+  })
+  test('repeated substitutions are grouped', () =>
+    expect(regex(['xxxxx', 'yyyyy'], { substitutions: { x: 'ab', y: '[ab]' } })).toEqual(/(?:(?:ab){5}|[ab]{5})/))
+  test('custom renderer', () =>
+    expect(render(parse(qw('cat dog'), { bound: true }), { ...renderer(), boundary: () => '\\b{g}' })).toBe(
+      '\\b{g}(?:cat|dog)\\b{g}',
+    ))
+  test('transformed tree', () => {
+    // spell out repetitions
+    const expand = (node: AstNode): AstNode => {
+      switch (node.type) {
+        case 'repetition':
+          return { type: 'sequence', nodes: new Array(node.min).fill(expand(node.node)) }
+        case 'sequence':
+          return { ...node, nodes: node.nodes.map(expand) }
+        case 'alternation':
+          return { ...node, alternatives: node.alternatives.map(expand) }
+        case 'optional':
+        case 'capture':
+          return { ...node, node: expand(node.node) }
+        default:
+          return node
+      }
+    }
+    const ast = parse(qw('aaaaab aaaaac'))
+    expect(render({ ...ast, node: expand(ast.node) })).toBe('aaaaa[bc]')
+  })
+  test('named captures', () => {
+    const node: AstNode = { type: 'capture', name: 'x', node: { type: 'literal', codePoint: 97 } }
+    expect(render(node)).toBe('(?<x>a)')
+    expect(render(node, renderer('python'))).toBe('(?P<x>a)')
+    expect(render(node, renderer('posix'))).toBe('(a)')
+  })
+})
+
+describe('ListMatcher', () => {
+  test('empty', () => expect(new ListMatcher().regex.source).toBe('(?!)'))
+  test('has', () => {
+    const m = new ListMatcher(['Cat'], { flags: 'i' })
+    expect(m.has('Cat')).toBe(true)
+    expect(m.has('cat')).toBe(false)
+    expect(m.remove('Cat').has('Cat')).toBe(false)
+  })
+  test('the expression is kept until the list changes', () => {
+    const m = new ListMatcher(qw('cat dog'))
+    const rx = m.regex
+    expect(m.add('cat').remove('bird').regex).toBe(rx)
+    expect(m.add('bird').regex).not.toBe(rx)
+  })
+  test('caseless phrases subsume others while present', () => {
+    const m = new ListMatcher(['Cat', 'dog'], { ignoreCase: ['cat'] })
+    expect(m.add('cat').regex).toEqual(/(?:[Cc][Aa][Tt]|dog)/)
+    expect(m.remove('cat').regex).toEqual(/(?:Cat|dog)/)
+  })
+  test('phrases normalizing alike', () => {
+    const m = new ListMatcher(['hot dog', ' hot  dog '], { normalizeWhitespace: true })
+    expect(m.remove('hot dog').regex).toEqual(/hot\s+dog/)
+    expect(m.remove(' hot  dog ').regex.source).toBe('(?!)')
+  })
+  test('the u flag comes and goes', () => {
+    const m = new ListMatcher(['cat'], { bound: true })
+    expect(m.add('süß').regex).toEqual(/(?<![\p{L}\p{N}_])(?:cat|süß)(?![\p{L}\p{N}_])/u)
+    expect(m.remove('süß').regex).toEqual(/\bcat\b/)
+  })
+  test('phrases containing placeholders', () => {
+    const opts = { substitutions: { '#': '\\d' } }
+    const m = new ListMatcher(['#1'], opts)
+    expect(m.regex).toEqual(/\d1/)
+    expect(m.add('\u0080').regex).toEqual(regex(['#1', '\u0080'], opts))
+  })
+  test('mergeSuffixes', () =>
+    expect(new ListMatcher(qw('walked talked'), { mergeSuffixes: true }).add('jumped').regex).toEqual(
+      /(?:[tw]alk|jump)ed/,
+    ))
+  describe('same as regex after any changes', () => {
+    const optionSets: ListMatcherOptions[] = [
+      {},
+      { bound: true },
+      { flags: 'i' },
+      { ignoreCase: ['ab', 'Ba'] },
+      { graphemes: true, ignoreCase: true },
+      { normalizeWhitespace: true, substitutions: { '#': '\\d' } },
+      { mergeSuffixes: true, capture: true },
+    ]
+    const alphabet = ['a', 'b', 'B', ' ', '#', 'é', 'e\u0301', '𠀀']
+    optionSets.forEach((opts) => {
+      test(JSON.stringify(opts), () => {
+        const random = randomizer(42)
+        const m = new ListMatcher([], opts)
+        const phrases: string[] = []
+        for (let i = 0; i < 200; i++) {
+          if (phrases.length && random(3) === 0) {
+            const [w] = phrases.splice(random(phrases.length), 1)
+            m.remove(w)
+          } else {
+            let w = ''
+            for (let j = random(5); j >= 0; j--) w += alphabet[random(alphabet.length)]
+            if (!phrases.includes(w)) phrases.push(w)
+            m.add(w)
+          }
+          if (i % 5 === 0) expect([phrases, m.regex]).toEqual([phrases, regex(phrases, opts)])
+        }
+      })
+    })
+  })
+})
+
+describe('matcher', () => {
+  test('payloads', () => {
+    const m = matcher([
+      ['cat', { id: 1 }],
+      ['dog', { id: 2 }],
+    ])
+    expect(m.matchAll('dog cat').map(({ payloads }) => payloads[0]!.id)).toEqual([2, 1])
+  })
+  test('whitespace normalization', () => {
+    const m = matcher([' hot  dog', 'hot dog '], { normalizeWhitespace: true })
+    expect(m.exec('a hot\tdog')).toEqual({
+      phrase: ' hot  dog',
+      phrases: [' hot  dog', 'hot dog '],
+      payloads: [undefined, undefined],
+      index: 2,
+      text: 'hot\tdog',
+    })
+  })
+  test('ignoreCase', () => {
+    const m = matcher(['Cat', 'cat', 'DOG'], { ignoreCase: ['cat'] })
+    expect(m.exec('CAT')!.phrases).toEqual(['cat'])
+    expect(m.exec('Cat')!.phrases).toEqual(['Cat', 'cat'])
+    expect(m.exec('dog')).toBeNull()
+  })
+  test('substitutions', () => {
+    const m = matcher(['###-####', '(###) ###-####', 'call'], { substitutions: { '#': '\\d' } })
+    expect(m.matchAll('call (802) 555-1234 or 555-6789').map(({ phrase }) => phrase)).toEqual([
+      'call',
+      '(###) ###-####',
+      '###-####',
+    ])
+  })
+  test('exec with start', () => {
+    const m = matcher(['a'])
+    expect(m.exec('aba', 1)!.index).toBe(2)
+    expect(m.exec('aba', 3)).toBeNull()
+  })
+  describe('types', () => {
+    // whether two types are the same
+    type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+    test('phrases declared as const', () => {
+      const animals = ['cat', 'dog'] as const
+      const m = matcher(animals)
+      const sound = (phrase: typeof animals[number]) => {
+        switch (phrase) {
+          case 'cat':
+            return 'meow'
+          case 'dog':
+            return 'woof'
+        }
+      }
+      expect(m.matchAll('dog cat').map(({ phrase }) => sound(phrase))).toEqual(['woof', 'meow'])
+      const same: Same<ListMatch<undefined, 'cat' | 'dog'>, NonNullable<ReturnType<typeof m.exec>>> = true
+      expect(same).toBe(true)
+    })
+    test('phrases with payloads', () => {
+      const m = matcher(['cat', ['dog', 1]])
+      const match = m.exec('dog')!
+      const phrase: Same<typeof match.phrase, 'cat' | 'dog'> = true
+      const payloads: Same<typeof match.payloads, (number | undefined)[]> = true
+      expect([phrase, payloads, match.payloads]).toEqual([true, true, [1]])
+    })
+    test('phrases not known to the compiler', () => {
+      const words: string[] = qw('cat dog')
+      const phrase: Same<NonNullable<ReturnType<ReturnType<typeof matcher>['exec']>>['phrase'], string> = true
+      expect([phrase, matcher(words).exec('cat')!.phrase]).toEqual([true, 'cat'])
+    })
+    test('readonly lists', () => {
+      const words = ['cat', 'dog'] as const
+      expect(regex(words)).toEqual(/(?:cat|dog)/)
+      expect(new ListMatcher(words).regex).toEqual(/(?:cat|dog)/)
+    })
+    test('category groups', () => {
+      const rx = categorized({ pet: ['cat', 'dog'] as const, wild: qw('lion') })
+      const groups = rx.exec('lion')!.groups
+      const same: Same<typeof groups, Record<'pet' | 'wild', string | undefined>> = true
+      expect([same, groups.wild]).toEqual([true, 'lion'])
+    })
+  })
+  test('the g flag is not required', () => {
+    const m = matcher(['a'], { flags: 'g' })
+    expect(m.matchAll('aa').length).toBe(2)
+    expect(m.regex.flags).toBe('g')
+  })
+})
+
+describe('regexes', () => {
+  test('without limits', () => expect(regexes(qw('cat camel dog'))).toEqual([regex(qw('cat camel dog'))]))
+  test('empty', () => expect(regexes([], { maxSourceLength: 10 })).toEqual([]))
+  test('limits are enforced elsewhere', () => {
+    expect(() => source(qw('cat camel'), { maxSourceLength: 5 })).toThrow('use regexes')
+    expect(() => new ListMatcher(qw('cat camel'), { maxDepth: 0 }).regex).toThrow('use regexes')
+    expect(regex(qw('cat camel'), { maxSourceLength: 12, maxDepth: 1 })).toEqual(/ca(?:mel|t)/)
+  })
+  test('depth counts lookarounds but not brackets', () => {
+    expect(regexes(['s[(]', 'süß'], { bound: true, maxDepth: 1 })).toEqual([
+      /(?<![\p{L}\p{N}_])s\[\(\]/u,
+      /(?<![\p{L}\p{N}_])süß(?![\p{L}\p{N}_])/u,
+    ])
+  })
+  test('a phrase too big by itself', () =>
+    expect(() => regexes(['catalog', 'dog'], { maxSourceLength: 5 })).toThrow('a phrase cannot be matched'))
+  test('a phrase and its extensions are split apart', () =>
+    expect(regexes(qw('cat cats catalog'), { maxSourceLength: 8 })).toEqual([/cat/, /catalog/, /cats/]))
+  test('options apply to every part', () =>
+    expect(regexes(qw('cat dog'), { capture: true, flags: 'i', maxSourceLength: 5 })).toEqual([/(cat)/i, /(dog)/i]))
+  describe('the parts match the same language', () => {
+    const optionSets: ListMatcherOptions[] = [
+      { maxSourceLength: 12 },
+      { maxDepth: 1 },
+      { bound: true, maxDepth: 2 },
+      { mergeSuffixes: true, maxSourceLength: 20 },
+      { substitutions: { '#': '\\d' }, maxSourceLength: 15 },
+    ]
+    optionSets.forEach((opts) => {
+      test(JSON.stringify(opts), () => {
+        const random = randomizer(7)
+        const string = () => {
+          let w = ''
+          for (let j = random(6); j >= 0; j--) w += 'ab#'[random(3)]
+          return w
+        }
+        for (let i = 0; i < 20; i++) {
+          const words: string[] = []
+          for (let j = random(30); j >= 0; j--) words.push(string())
+          const parts = regexes(words, opts)
+          for (const rx of parts) {
+            expect(rx.source.length).toBeLessThanOrEqual(opts.maxSourceLength ?? Infinity)
+          }
+          const whole = new RegExp(
+            `^(?:${regex(words, { ...opts, maxSourceLength: undefined, maxDepth: undefined }).source})$`,
+          )
+          const anchored = parts.map((rx) => new RegExp(`^(?:${rx.source})$`))
+          for (let j = 0; j < 100; j++) {
+            const s = string().replace(/#/g, '1')
+            expect([words, s, anchored.some((rx) => rx.test(s))]).toEqual([words, s, whole.test(s)])
+          }
+        }
+      })
+    })
+  })
+})
+
+describe('union', () => {
+  test('leftmost', () => expect(union([/c/, /abc/]).exec('xabc')?.[0]).toBe('abc'))
+  test('longest', () => expect(union([/ab/, /abc/, /a/]).exec('xabc')?.[0]).toBe('abc'))
+  test('earliest of equally long', () => {
+    const m = union([/(a)b/, /a(b)/]).exec('ab')!
+    expect(m[1]).toBe('a')
+  })
+  test('exec with start', () => {
+    const u = union([/a/, /b/])
+    expect(u.exec('aba', 1)!.index).toBe(1)
+    expect(u.exec('aba', 3)).toBeNull()
+  })
+  test('matchAll', () =>
+    expect(
+      union([/cat/, /category/, /dog/])
+        .matchAll('cat category dogs')
+        .map((m) => [m[0], m.index]),
+    ).toEqual([
+      ['cat', 0],
+      ['category', 4],
+      ['dog', 13],
+    ]))
+  test('empty matches', () =>
+    expect(
+      union([/x*/])
+        .matchAll('ab')
+        .map((m) => m.index),
+    ).toEqual([0, 1, 2]))
+  test('test', () => {
+    expect(union([/a/, /b/]).test('cb')).toBe(true)
+    expect(union([]).test('cb')).toBe(false)
+  })
+  test('the expressions are not changed', () => {
+    const rx = /a/
+    union([rx]).matchAll('aaa')
+    expect(rx.lastIndex).toBe(0)
+    expect(rx.flags).toBe('')
+  })
+})
+
+describe('verify', () => {
+  test('exact', () => expect(verify(qw('cat cats'))).toEqual({ regex: /cats?/, exact: true, missing: [], extra: [] }))
+  test('the expression is that of regex', () => {
+    const opts = { bound: true, flags: 'i', mergeSuffixes: true }
+    expect(verify(qw('walked talked'), opts).regex).toEqual(regex(qw('walked talked'), opts))
+  })
+  test('empty', () => expect(verify([''])).toEqual({ regex: /(?!)/, exact: true, missing: [], extra: [] }))
+  test('case variants', () =>
+    expect(verify(['Cat', 'cat', 'DOG'], { ignoreCase: ['cat'] })).toMatchObject({ exact: true }))
+  test('graphemes', () =>
+    expect(verify(['éa', 'éb', 'e\u0301c'], { graphemes: true, ignoreCase: true })).toMatchObject({ exact: true }))
+  test('substitutions sharing a pattern', () =>
+    expect(verify(['#1', '%2', '##'], { substitutions: { '#': '\\d', '%': '\\d' } })).toMatchObject({ exact: true }))
+  test('repetitions', () => expect(verify(qw('aaa aaaa a abababab'))).toMatchObject({ exact: true }))
+  test('too many strings', () =>
+    expect(() => verify(['abcdefghijklmnopqrstuvwxyz'], { ignoreCase: true })).toThrow('too many strings'))
+})
+
+describe('optimize', () => {
+  const tests: [RegExp | string, RegExp][] = [
+    [/c[ao]t|cut/, /c[aou]t/],
+    [/cat|CAT|dog/i, /(?:cat|dog)/i],
+    [/süß|bloß/, /(?:blo|sü)ß/u],
+    [/\u{1F600}|\u{1F601}/u, /[😀😁]/u],
+    [/a\/b|a\tb|\x41|B/, /(?:a[\t/]b|[AB])/],
+    [/c[^ao]t|c\dt|cat/, /c(?:a|\d|[^ao])t/],
+    [/\p{L}x|yx/u, /(?:y|\p{L})x/u],
+    [/a.b|a-b/s, /a(?:-|.)b/s],
+    [/a{|b}/, /(?:a\{|b})/],
+    [/[]|a/, /a/],
+    [/cat|dog/gy, /(?:cat|dog)/gy],
+    ['[a-c]x|[b-d]x', /[a-d]x/],
+  ]
+  tests.forEach(([rx, expected]) => test(`${rx}`, () => expect(optimize(rx)).toEqual(expected)))
+  const refusals: [RegExp, string][] = [
+    [/a|/, 'an alternative is empty'],
+    [/a(b)/, 'groups are not supported at offset 1'],
+    [/ab+/, 'the quantifier + matches infinitely many strings at offset 2'],
+    [/a{2,}/, 'the quantifier {2,} matches infinitely many strings at offset 1'],
+    [/a{2}/, 'quantifiers are not supported at offset 1'],
+    [/a?/, 'quantifiers are not supported at offset 1'],
+    [/^a|b$/, 'anchors are not supported at offset 0'],
+    [/a\1/, 'backreferences and octal escapes are not supported at offset 1'],
+  ]
+  refusals.forEach(([rx, message]) => test(`refuses ${rx}`, () => expect(() => optimize(rx)).toThrow(message)))
+  test('matches what the original matches', () => {
+    const random = randomizer(5)
+    const atoms = ['a', 'b', '\\.', '[ab]', '[^a]', '\\d', '\\b', '.', ' ', '[a-c1]']
+    for (let i = 0; i < 100; i++) {
+      const branches = []
+      for (let j = random(6); j >= 0; j--) {
+        let branch = ''
+        for (let k = random(4); k >= 0; k--) branch += atoms[random(atoms.length)]
+        branches.push(branch)
+      }
+      const original = new RegExp(`^(?:${branches.join('|')})$`)
+      const optimized = new RegExp(`^(?:${optimize(branches.join('|')).source})$`)
+      for (let j = 0; j < 100; j++) {
+        let s = ''
+        for (let k = random(5); k >= 0; k--) s += 'ab.1 x'[random(6)]
+        expect([branches, s, optimized.test(s)]).toEqual([branches, s, original.test(s)])
+      }
+    }
+  })
+})
+
+describe('ListMatcherError', () => {
+  // the code of the error a function throws
+  const code = (f: () => unknown) => {
+    try {
+      f()
+    } catch (e) {
+      return e instanceof ListMatcherError ? e.code : e
+    }
+  }
+  test('is an Error', () => {
+    const e = new ListMatcherError('INTERNAL', 'oops')
+    expect([e instanceof Error, e instanceof ListMatcherError, e.name, e.message]).toEqual([
+      true,
+      true,
+      'ListMatcherError',
+      'oops',
+    ])
+  })
+  const cases: [string, () => unknown, ListMatcherErrorCode][] = [
+    ['substitutions', () => regex(['#'], { substitutions: { '#': '(a' } }), 'INVALID_SUBSTITUTION'],
+    [
+      'substitutions that are not patterns',
+      () => regex(['#'], { substitutions: { '#': { pattern: 1 } } } as unknown as ListMatcherOptions),
+      'INVALID_SUBSTITUTION',
+    ],
+    ['dialects', () => regex(['a'], { dialect: 'pcre' }), 'UNSUPPORTED_DIALECT'],
+    ['names', () => categorized({ 'a b': ['a'] }), 'INVALID_NAME'],
+    ['exports', () => codegen({ a: ['a'], aPhrases: ['b'] }), 'INVALID_NAME'],
+    ['limits', () => regex(qw('cat dog'), { maxSourceLength: 5 }), 'LIMIT_EXCEEDED'],
+    ['phrases beyond limits', () => regexes(['catalog'], { maxSourceLength: 5 }), 'LIMIT_EXCEEDED'],
+    ['optimize', () => optimize(/a(b)/), 'UNREADABLE_EXPRESSION'],
+    ['verify', () => verify(['abcdefghijklmnopqrstu'], { ignoreCase: true }), 'TOO_MANY_STRINGS'],
+  ]
+  for (const [label, f, expected] of cases) test(label, () => expect(code(f)).toBe(expected))
+  describe('strict', () => {
+    const strict = { strict: true }
+    const cases: [string, () => unknown, ListMatcherErrorCode][] = [
+      ['unknown flags', () => regex(['a'], { ...strict, flags: 'gx' }), 'INVALID_FLAGS'],
+      ['repeated flags', () => regex(['a'], { ...strict, flags: 'gig' }), 'INVALID_FLAGS'],
+      ['unknown options', () => regex(['a'], { ...strict, bonud: true } as ListMatcherOptions), 'INVALID_OPTION'],
+      ['unknown dialects', () => source(['a'], { ...strict, dialect: 'perl' as Dialect }), 'INVALID_OPTION'],
+      [
+        'unknown normalization forms',
+        () => regex(['a'], { ...strict, normalize: 'NFKD' as NormalizationForm }),
+        'INVALID_OPTION',
+      ],
+      ['unknown anchors', () => regex(['a'], { ...strict, anchor: 'both' as 'line' }), 'INVALID_OPTION'],
+      ['empty lists', () => regex([], strict), 'EMPTY_LIST'],
+      ['empty phrases', () => source(['', '  '], { ...strict, normalizeWhitespace: true }), 'EMPTY_LIST'],
+      ['regexes', () => regexes([], { ...strict, maxSourceLength: 10 }), 'EMPTY_LIST'],
+      ['empty categories', () => categorized({ a: [], b: [''] }, strict), 'EMPTY_LIST'],
+      ['emptied ListMatchers', () => new ListMatcher(['a'], strict).remove('a').regex, 'EMPTY_LIST'],
+    ]
+    for (const [label, f, expected] of cases) test(label, () => expect(code(f)).toBe(expected))
+    test('not otherwise', () => {
+      expect(regex(['a'], { flags: 'gx' })).toEqual(/a/g)
+      expect(regex([])).toEqual(/(?!)/)
+      expect(categorized({ a: ['a'], b: ['a'] }, strict)).toEqual(/(?<a>a)|(?<b>(?!))/)
+      expect(regex(['a'], { ...strict, flags: 'gimsuy' })).toEqual(/a/gimsuy)
+    })
+    test('unsupported unicode boundaries', () => {
+      const native = RegExp
+      // an engine without lookbehinds
+      globalThis.RegExp = function (pattern: string | RegExp, flags?: string) {
+        if (String(pattern).includes('(?<')) throw new SyntaxError('Invalid regular expression')
+        return new native(pattern, flags)
+      } as unknown as RegExpConstructor
+      try {
+        expect(code(() => regex(['süß'], { ...strict, bound: true }))).toBe('UNSUPPORTED_FEATURE')
+        expect(code(() => regex(['süß'], strict))).toBeUndefined()
+        expect(code(() => regex(['cat'], { ...strict, bound: true }))).toBeUndefined()
+        expect(code(() => source(['süß'], { ...strict, bound: true, dialect: 're2' }))).toBeUndefined()
+        expect(code(() => regex(['cat'], { ...strict, bound: /[\w-]/ }))).toBe('UNSUPPORTED_FEATURE')
+      } finally {
+        globalThis.RegExp = native
+      }
+    })
   })
 })
@@ -0,0 +1,11 @@
+/**
+ * utilities shared by the tests
+ */
+
+// a deterministic sequence of pseudo-random numbers less than n
+export function randomizer(seed: number): (n: number) => number {
+  return (n) => {
+    seed = (seed * 48271) % 2147483647
+    return seed % n
+  }
+}
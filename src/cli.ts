@@ -0,0 +1,258 @@
+#!/usr/bin/env node
+// Copyright (c) David F. Houghton. All rights reserved. Licensed under the MIT license.
+
+/**
+ * The `list-matcher` command, which makes a regular expression from lists of phrases in files or on standard input.
+ *
+ * @packageDocumentation
+ */
+
+import { readFileSync } from 'fs'
+import { basename, extname } from 'path'
+import { codegen, Dialect, ListMatcherOptions, NormalizationForm, qw, regex, regexes, source } from './index'
+
+const USAGE = `usage: list-matcher [options] [file ...]
+       list-matcher --module <ts|js> [options] [name=]file ...
+
+Makes a regular expression matching the phrases in the files given, or on standard input if there are none.
+A file named - is standard input. Phrases are separated by whitespace unless another separator is given.
+With --module, writes a module exporting an expression for each file, named as given or after the file.
+
+options:
+  --separator <pattern>        a regular expression separating phrases
+  --format <format>            source, literal, or json; source by default
+  --module <language>          write a ts or js module; see codegen in the documentation
+  --bound                      discover and preserve word boundaries
+  --word-characters <class>    a character class of the word characters --bound respects; implies --bound
+  --anchor <string|line>       match only the whole string, or only whole lines
+  --max-edits <n>              also match phrases with a typo; n may only be 1
+  --transpositions             count two adjacent characters swapped as a single typo
+  --capture                    put the expression in a capture group
+  --normalize-whitespace       match any run of whitespace where a phrase has whitespace
+  --flags <flags>              regular expression flags, such as i or u
+  --sub <key>=<pattern>        substitute a pattern wherever the key occurs in a phrase; may be repeated
+  --glob                       read ?, [abc], {a,b}, and \\ escapes in phrases as wildcards
+  --graphemes                  treat grapheme clusters as single characters
+  --ignore-case                match all phrases without regard to case
+  --ignore-case-from <file>    match the phrases in a file without regard to case; may be repeated
+  --dialect <dialect>          javascript, pcre, python, re2, java, or posix; javascript by default
+  --merge-suffixes             merge branches of the trie of phrases that end alike
+  --normalize <form>           normalize phrases to NFC, NFD, or NFKC
+  --ignore-diacritics          match letters with or without accents and other combining marks
+  --locale <locale>            fold case by the rules of a language, such as tr
+  --equivalent <characters>    characters any of which matches any other; may be repeated
+  --optional-separator <characters>
+                               characters any of which, a run of whitespace, or nothing matches any other;
+                               may be repeated
+  --max-source-length <n>      the longest an expression may be; javascript expressions are split into several,
+                               one per line, to fit
+  --max-depth <n>              how deeply groups may nest in an expression; split likewise
+  --strict                     fail on an empty list or where --bound is unsupported
+  --help                       print this message`
+
+const DIALECTS: Dialect[] = ['javascript', 'pcre', 'python', 're2', 'java', 'posix']
+
+const FORMATS = ['source', 'literal', 'json']
+
+const ANCHORS = ['string', 'line']
+
+const NORMALIZATION_FORMS: NormalizationForm[] = ['NFC', 'NFD', 'NFKC']
+
+// options taking no value, by the ListMatcherOptions field they set
+const SWITCHES = new Map<
+  string,
+  'bound' | 'capture' | 'normalizeWhitespace' | 'graphemes' | 'mergeSuffixes' | 'strict' | 'ignoreDiacritics' | 'glob'
+>([
+  ['--bound', 'bound'],
+  ['--capture', 'capture'],
+  ['--normalize-whitespace', 'normalizeWhitespace'],
+  ['--graphemes', 'graphemes'],
+  ['--merge-suffixes', 'mergeSuffixes'],
+  ['--strict', 'strict'],
+  ['--ignore-diacritics', 'ignoreDiacritics'],
+  ['--glob', 'glob'],
+])
+
+/**
+ * Runs the command.
+ *
+ * @param {string[]} args - the command-line arguments, without the node executable or script
+ * @param {(file: string) => string} read - reads a file; given `-`, reads standard input
+ * @returns {string} what the command prints
+ * @throws {Error} if the arguments or phrases are invalid
+ */
+export function main(args: string[], read: (file: string) => string): string {
+  const opts: ListMatcherOptions = {}
+  const files: string[] = []
+  const caseless: string[] = []
+  let separator: RegExp | undefined
+  let format: string | undefined
+  let language: 'ts' | 'js' | undefined
+  let wordCharacters: RegExp | undefined
+  let maxEdits: number | undefined
+  let transpositions = false
+  for (let i = 0; i < args.length; i++) {
+    let arg = args[i]
+    let value: string | undefined
+    if (/^--[^=]+=/.test(arg)) {
+      value = arg.slice(arg.indexOf('=') + 1)
+      arg = arg.slice(0, arg.indexOf('='))
+    }
+    // the value of an option that takes one
+    const next = () => {
+      if (value === undefined) {
+        if (i + 1 === args.length) throw new Error(`${arg} requires a value`)
+        value = args[++i]
+      }
+      return value
+    }
+    const count = () => {
+      const n = next()
+      if (!/^\d+$/.test(n)) throw new Error(`${arg} requires a whole number, not ${n}`)
+      return Number(n)
+    }
+    const field = SWITCHES.get(arg)
+    if (field) {
+      if (value !== undefined) throw new Error(`${arg} takes no value`)
+      opts[field] = true
+      continue
+    }
+    switch (arg) {
+      case '--help':
+        return USAGE
+      case '--separator': {
+        const pattern = next()
+        try {
+          separator = new RegExp(pattern)
+        } catch (e) {
+          throw new Error(`invalid separator: ${pattern}`)
+        }
+        break
+      }
+      case '--word-characters': {
+        const pattern = next()
+        try {
+          wordCharacters = new RegExp(pattern)
+        } catch (e) {
+          throw new Error(`invalid word characters: ${pattern}`)
+        }
+        break
+      }
+      case '--anchor':
+        opts.anchor = next() as 'string' | 'line'
+        if (!ANCHORS.includes(opts.anchor)) throw new Error(`unknown anchor: ${opts.anchor}`)
+        break
+      case '--format':
+        format = next()
+        if (!FORMATS.includes(format)) throw new Error(`unknown format: ${format}`)
+        break
+      case '--module': {
+        const lang = next()
+        if (lang !== 'ts' && lang !== 'js') throw new Error(`a module must be ts or js, not ${lang}`)
+        language = lang
+        break
+      }
+      case '--flags':
+        opts.flags = next()
+        if (/[^gimsuy]/.test(opts.flags)) throw new Error(`unknown flags: ${opts.flags}`)
+        break
+      case '--sub': {
+        const sub = next()
+        const eq = sub.indexOf('=')
+        if (eq < 1) throw new Error(`a substitution must have the form <key>=<pattern>, not ${sub}`)
+        opts.substitutions ??= {}
+        opts.substitutions[sub.slice(0, eq)] = sub.slice(eq + 1)
+        break
+      }
+      case '--ignore-case':
+        if (value !== undefined) throw new Error(`${arg} takes no value`)
+        opts.ignoreCase = true
+        break
+      case '--ignore-case-from':
+        caseless.push(next())
+        break
+      case '--dialect':
+        opts.dialect = next() as Dialect
+        if (!DIALECTS.includes(opts.dialect)) throw new Error(`unknown dialect: ${opts.dialect}`)
+        break
+      case '--normalize':
+        opts.normalize = next() as NormalizationForm
+        if (!NORMALIZATION_FORMS.includes(opts.normalize))
+          throw new Error(`unknown normalization form: ${opts.normalize}`)
+        break
+      case '--locale':
+        opts.locale = next()
+        break
+      case '--equivalent':
+        opts.equivalences ??= []
+        opts.equivalences.push(next())
+        break
+      case '--optional-separator':
+        opts.equivalences ??= []
+        opts.equivalences.push({ characters: next(), optional: true, whiteSpace: true })
+        break
+      case '--max-edits':
+        maxEdits = count()
+        break
+      case '--transpositions':
+        if (value !== undefined) throw new Error(`${arg} takes no value`)
+        transpositions = true
+        break
+      case '--max-source-length':
+        opts.maxSourceLength = count()
+        break
+      case '--max-depth':
+        opts.maxDepth = count()
+        break
+      default:
+        if (arg !== '-' && arg.startsWith('-')) throw new Error(`unknown option: ${arg}`)
+        files.push(arg)
+    }
+  }
+  if (wordCharacters) opts.bound = wordCharacters
+  if (maxEdits !== undefined) opts.fuzzy = { maxEdits, transpositions }
+  else if (transpositions) throw new Error('--transpositions requires --max-edits')
+  const phrases = (file: string) => qw(read(file), separator)
+  if (caseless.length && opts.ignoreCase !== true) {
+    opts.ignoreCase = []
+    for (const file of caseless) for (const w of phrases(file)) opts.ignoreCase.push(w)
+  }
+  if (language) {
+    if (format) throw new Error('--format cannot be used with --module')
+    if (!files.length) throw new Error('--module requires files')
+    const lists: Record<string, string[]> = {}
+    for (const arg of files) {
+      const eq = arg.indexOf('=')
+      const file = eq === -1 ? arg : arg.slice(eq + 1)
+      const name = eq === -1 ? basename(file, extname(file)) : arg.slice(0, eq)
+      if (Object.keys(lists).includes(name)) throw new Error(`${name} is given twice`)
+      lists[name] = phrases(file)
+    }
+    return codegen(lists, opts, language).replace(/\n$/, '')
+  }
+  const words: string[] = []
+  for (const file of files.length ? files : ['-']) for (const w of phrases(file)) words.push(w)
+  const dialect = opts.dialect ?? 'javascript'
+  if (dialect !== 'javascript') {
+    if (format === 'literal') throw new Error(`a literal can only be written in the javascript dialect`)
+    const s = source(words, opts)
+    return format === 'json' ? JSON.stringify({ source: s }) : s
+  }
+  const split = opts.maxSourceLength !== undefined || opts.maxDepth !== undefined
+  const rxs = split ? regexes(words, opts) : [regex(words, opts)]
+  if (format === 'json') {
+    const json = rxs.map((rx) => ({ source: rx.source, flags: rx.flags }))
+    return JSON.stringify(split ? json : json[0])
+  }
+  return rxs.map((rx) => (format === 'literal' ? String(rx) : rx.source)).join('\n')
+}
+
+if (require.main === module) {
+  try {
+    const read = (file: string) => readFileSync(file === '-' ? 0 : file, 'utf8')
+    process.stdout.write(main(process.argv.slice(2), read) + '\n')
+  } catch (e) {
+    process.stderr.write(`list-matcher: ${e instanceof Error ? e.message : e}\n`)
+    process.exitCode = 1
+  }
+}
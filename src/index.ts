@@ -5,7 +5,17 @@
  *
  * @remarks
  * The chief export of this library is {@link regex}. In addition there is the function
- * {@link qw}, which makes it slightly easier to make lists of phrases to give to {@link regex}.
+ * {@link qw}, which makes it slightly easier to make lists of phrases to give to {@link regex},
+ * {@link categorized}, which matches several lists of phrases, each in its own named group,
+ * {@link codegen}, which writes a module exporting expressions made ahead of time,
+ * {@link source}, which writes patterns for regular expression engines other than javascript's,
+ * {@link regexes}, which splits a pattern too large for a regular expression engine into several, and
+ * {@link union}, which searches with them as one,
+ * {@link verify}, which checks that an expression matches exactly the phrases it was made from,
+ * {@link optimize}, which remakes an existing expression that is a simple list of alternatives,
+ * {@link matcher}, which wraps the regular expression in an object that can tell you which phrase matched,
+ * {@link ListMatcher}, which keeps a list of phrases you may change and remakes its expression incrementally, and
+ * {@link parse} and {@link render}, which expose the syntax tree from which patterns are written.
  *
  * This library also provides polyfills for various String.prototype functions for javascript engines
  * that don't yet implement them. These are `String.prototype.repeat`, `String.prototype.includes`,
@@ -27,11 +37,131 @@
  * @typedef {ListMatcherOptions}
  */
 export type ListMatcherOptions = {
-  bound?: boolean
+  bound?: boolean | RegExp | ((c: string) => boolean)
   capture?: boolean
   normalizeWhitespace?: boolean
   flags?: string
-  substitutions?: Record<string, string>
+  substitutions?: Record<string, string | Substitution>
+  graphemes?: boolean
+  ignoreCase?: boolean | string[]
+  dialect?: Dialect
+  mergeSuffixes?: boolean
+  maxSourceLength?: number
+  maxDepth?: number
+  strict?: boolean
+  normalize?: NormalizationForm
+  ignoreDiacritics?: boolean
+  locale?: string
+  equivalences?: (string | Equivalence)[]
+  glob?: boolean
+  anchor?: 'string' | 'line'
+  fuzzy?: Fuzziness
+}
+
+/**
+ * The Unicode normalization forms the `normalize` option may apply to phrases.
+ *
+ * @export
+ * @typedef {NormalizationForm}
+ */
+export type NormalizationForm = 'NFC' | 'NFD' | 'NFKC'
+
+/**
+ * A pattern given in the `substitutions` option, with whether the characters it matches at its left and right edges
+ * are word characters. With the `bound` option, word boundaries are put beside a substitution only where it says its
+ * edge is a word character.
+ *
+ * @export
+ * @typedef {Substitution}
+ */
+export type Substitution = { pattern: string; wordLeft?: boolean; wordRight?: boolean }
+
+/**
+ * A set of interchangeable characters given in the `equivalences` option, any of which matches any other. An optional
+ * set may also be left out, and a set with `whiteSpace` may also be a run of whitespace, so a set of optional
+ * separators can make `e-mail`, `e mail`, and `email` one phrase.
+ *
+ * @export
+ * @typedef {Equivalence}
+ */
+export type Equivalence = { characters: string; optional?: boolean; whiteSpace?: boolean }
+
+/**
+ * How far from a phrase the `fuzzy` option lets a match stray: at most `maxEdits` characters inserted, deleted, or
+ * replaced, and, with `transpositions`, two adjacent characters swapped. Only a single edit is supported.
+ *
+ * @export
+ * @typedef {Fuzziness}
+ */
+export type Fuzziness = { maxEdits: number; transpositions?: boolean }
+
+/**
+ * Regular expression engines for which {@link source} can write patterns.
+ *
+ * @export
+ * @typedef {Dialect}
+ */
+export type Dialect = 'javascript' | 'pcre' | 'python' | 're2' | 'java' | 'posix'
+
+/**
+ * What went wrong, as given by the `code` of a {@link ListMatcherError}.
+ *
+ * @export
+ * @typedef {ListMatcherErrorCode}
+ */
+export type ListMatcherErrorCode =
+  /** with the `strict` option, flags other than g, i, m, s, u, and y, or the same flag twice */
+  | 'INVALID_FLAGS'
+  /** with `strict`, an unknown option, dialect, or anchor; an invalid locale, equivalence, bound class, or fuzziness */
+  | 'INVALID_OPTION'
+  /** with the `strict` option, a feature the pattern needs that this javascript engine lacks */
+  | 'UNSUPPORTED_FEATURE'
+  /** with the `strict` option, a list with no phrases left once they are normalized */
+  | 'EMPTY_LIST'
+  /** an empty or ambiguous key, or a missing, invalid, capturing, or backreferring pattern, in `substitutions` */
+  | 'INVALID_SUBSTITUTION'
+  /** a RegExp asked for in a dialect other than javascript */
+  | 'UNSUPPORTED_DIALECT'
+  /** a category or export name that cannot be used */
+  | 'INVALID_NAME'
+  /** a pattern exceeding the `maxSourceLength` or `maxDepth` option */
+  | 'LIMIT_EXCEEDED'
+  /** an expression {@link optimize} cannot read as a list of phrases */
+  | 'UNREADABLE_EXPRESSION'
+  /** an expression matching more strings than {@link verify} will enumerate */
+  | 'TOO_MANY_STRINGS'
+  /** a phrase the `glob` option cannot read, such as one with an unclosed set or brace */
+  | 'INVALID_PHRASE'
+  /** a bug in this library */
+  | 'INTERNAL'
+
+/**
+ * The error thrown by the functions of this library, with a code saying what went wrong.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   regex(['cat'], { flags: 'x', strict: true })
+ * } catch (e) {
+ *   if (e instanceof ListMatcherError && e.code === 'INVALID_FLAGS') ...
+ * }
+ * ```
+ */
+export class ListMatcherError extends Error {
+  /** what went wrong */
+  readonly code: ListMatcherErrorCode
+
+  /**
+   * @param {ListMatcherErrorCode} code - what went wrong
+   * @param {string} message - a description of the error
+   */
+  constructor(code: ListMatcherErrorCode, message: string) {
+    super(message)
+    // compiled to ES5, the prototype of a subclass of Error is lost
+    Object.setPrototypeOf(this, ListMatcherError.prototype)
+    this.name = 'ListMatcherError'
+    this.code = code
+  }
 }
 
 /**
@@ -51,13 +181,550 @@ export type ListMatcherOptions = {
  * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expression
  * @returns {RegExp} regular expression matching `words`
  */
-export function regex(words: string[], opts: ListMatcherOptions = {}): RegExp {
-  words = [...words]
+export function regex(words: readonly string[], opts: ListMatcherOptions = {}): RegExp {
+  javascriptOnly(opts)
+  const [ast, options] = build(words, opts)
+  return new RegExp(limited(renderPattern(ast, options), opts), ast.flags)
+}
+
+/**
+ * Generates regular expressions which together match a list of strings, each within the limits given by the
+ * `maxSourceLength` and `maxDepth` options.
+ *
+ * @remarks
+ * The list is split along the branches of its trie: phrases sharing a prefix stay together where they can, and
+ * neighboring branches are packed into as few expressions as fit. An error is thrown if some phrase cannot be matched
+ * within the limits by itself. An empty list makes no expressions. See {@link union} for searching with the result.
+ *
+ * @example
+ * ```ts
+ * regexes(qw('cat camel dog dodo'), { maxSourceLength: 12 })
+ * => [/ca(?:mel|t)/, /do(?:do|g)/]
+ * ```
+ *
+ * @param {string[]} words - phrases to match
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expressions
+ * @returns {RegExp[]} regular expressions matching, among them, `words`
+ */
+export function regexes(words: readonly string[], opts: ListMatcherOptions = {}): RegExp[] {
+  javascriptOnly(opts)
+  const list = [...words]
+  const options = adjustOptions(list, opts)
+  if (options.strict && !list.length) throw new ListMatcherError('EMPTY_LIST', 'there are no phrases to match')
+  const trie = trieNode(0)
+  for (const p of encodePhrases(list, options)) addToTrie(trie, p)
+  return splitTrie(trie, options, (source) => withinLimits(source, opts)).map((s) => new RegExp(s, flags(options)))
+}
+
+/**
+ * A regular expression made by {@link categorized}, whose matches have a group for each category.
+ *
+ * @export
+ * @typedef {CategorizedRegExp}
+ * @template K - the names of the categories
+ */
+export type CategorizedRegExp<K extends string = string> = {
+  exec(text: string): (Omit<RegExpExecArray, 'groups'> & { groups: Record<K, string | undefined> }) | null
+} & RegExp
+
+/**
+ * Generates a regular expression matching several labeled lists of strings, each in its own named capture group.
+ *
+ * @remarks
+ * Group names must be valid javascript identifiers. A phrase found in more than one list belongs to the first
+ * list in which it is found, after normalization. Lists are tried in the order given. The `groups` of a match found
+ * by the expression's `exec` method are typed by the names of the lists.
+ *
+ * @example
+ * ```ts
+ * categorized({ color: qw('red tan'), animal: qw('cat cow') })
+ * => /(?<color>(?:red|tan))|(?<animal>c(?:at|ow))/
+ * ```
+ *
+ * @param {Record<K, readonly string[]>} categories - phrases to match, keyed by group name
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expression
+ * @returns {CategorizedRegExp<K>} regular expression matching all the phrases
+ */
+export function categorized<K extends string>(
+  categories: Record<K, readonly string[]>,
+  opts: ListMatcherOptions = {},
+): CategorizedRegExp<K> {
+  javascriptOnly(opts)
+  const entries: [string, readonly string[]][] = Object.entries(categories)
+  for (const [name] of entries) {
+    if (!IDENTIFIER.test(name)) throw new ListMatcherError('INVALID_NAME', `invalid group name: ${name}`)
+  }
+  const words = entries.reduce((acc: string[], [, ws]) => acc.concat(ws), [])
   const options = adjustOptions(words, opts)
-  const slices = toSlices(words, options)
-  let rx = condense(slices, options)
+  if (options.strict && !words.length) throw new ListMatcherError('EMPTY_LIST', 'there are no phrases to match')
+  // assign each normalized phrase to the first category in which it occurs
+  const normalized = new Set(words)
+  const owners = new Map<string, number>()
+  entries.forEach(([, ws], i) => {
+    for (const w of ws) {
+      for (const e of options.expand(w)) {
+        let n = options.normalize(e)
+        // this phrase may have been subsumed by a caseless phrase
+        if (!normalized.has(n)) n = foldCase(n, options.locale)
+        if (!owners.has(n)) owners.set(n, i)
+      }
+    }
+  })
+  const groups: number[][][] = entries.map(() => [])
+  for (const w of words) {
+    for (const p of encodings(w, !!options.caseless?.has(w), options)) groups[owners.get(w)!].push(p)
+  }
+  let rx = entries
+    .map(([name], i) => rendered({ type: 'capture', name, node: condense(groups[i], options) }, options))
+    .join('|')
   if (options.capture) rx = `(${rx})`
-  return new RegExp(rx, flags(options))
+  if (options.anchor) rx = `^(?:${rx})$`
+  return new RegExp(limited(rx, opts), flags(options)) as CategorizedRegExp<K>
+}
+
+/**
+ * Writes the source of a module exporting, for each of several named lists of strings, the regular expression
+ * matching it and the strings themselves.
+ *
+ * @remarks
+ * For a list named `animals` the module exports `animals`, a regular expression literal, and `animalsPhrases`, the
+ * distinct strings in the list, sorted, as a frozen array. In TypeScript this array is `as const`, and the module also
+ * exports `AnimalsPhrase`, the type of its members. Nothing is left to compute when the module is loaded, and the
+ * same lists and options always produce the same module. Names must be valid javascript identifiers and must not
+ * collide with one another's exports.
+ *
+ * @example
+ * ```ts
+ * codegen({ animals: qw('cat camel dog') }, { bound: true })
+ * => `// generated by list-matcher; do not edit
+ * // options: {"bound":true}
+ *
+ * export const animals = /\b(?:ca(?:mel|t)|dog)\b/
+ * export const animalsPhrases = Object.freeze([
+ *   "camel",
+ *   "cat",
+ *   "dog",
+ * ] as const)
+ * export type AnimalsPhrase = (typeof animalsPhrases)[number]
+ * `
+ * ```
+ *
+ * @param {Record<string, readonly string[]>} lists - phrases to match, keyed by the name to export their expression as
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expressions
+ * @param {('ts' | 'js')} [language='ts'] - whether to write TypeScript or javascript
+ * @returns {string} the source of an ES module
+ */
+export function codegen(
+  lists: Record<string, readonly string[]>,
+  opts: ListMatcherOptions = {},
+  language: 'ts' | 'js' = 'ts',
+): string {
+  javascriptOnly(opts)
+  const exported = new Set<string>()
+  const declare = (name: string) => {
+    if (exported.has(name)) throw new ListMatcherError('INVALID_NAME', `${name} would be exported twice`)
+    exported.add(name)
+  }
+  // a class or predicate given as the bound option is recorded by its source
+  const recorded = (_: string, v: unknown) => (v instanceof RegExp || typeof v === 'function' ? String(v) : v)
+  const lines = ['// generated by list-matcher; do not edit', `// options: ${JSON.stringify(opts, recorded)}`]
+  for (const [name, words] of Object.entries(lists)) {
+    if (!IDENTIFIER.test(name) || RESERVED_WORDS.includes(name))
+      throw new ListMatcherError('INVALID_NAME', `invalid name: ${name}`)
+    const type = name[0].toUpperCase() + name.slice(1) + 'Phrase'
+    declare(name)
+    declare(`${name}Phrases`)
+    if (language === 'ts') declare(type)
+    const phrases = Array.from(new Set(words)).sort()
+    lines.push('', `export const ${name} = ${regex(words, opts)}`)
+    const end = language === 'ts' ? '] as const)' : '])'
+    if (phrases.length) {
+      lines.push(`export const ${name}Phrases = Object.freeze([`)
+      for (const p of phrases) lines.push(`  ${JSON.stringify(p)},`)
+      lines.push(end)
+    } else {
+      lines.push(`export const ${name}Phrases = Object.freeze([${end}`)
+    }
+    if (language === 'ts') lines.push(`export type ${type} = (typeof ${name}Phrases)[number]`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Generates the source of a regular expression matching a list of strings in the given dialect.
+ *
+ * @remarks
+ * The `i`, `m`, and `s` flags are expressed as an inline flag group, such as `(?i:...)`. Other flags are ignored.
+ * POSIX extended regular expressions have no inline flags, so case insensitivity is expressed with character classes,
+ * as with the `ignoreCase` option. Engines without lookbehinds express word boundaries, where necessary, with
+ * expressions that consume the character on the other side of the boundary.
+ *
+ * @example
+ * ```ts
+ * source(qw('cat camel'), { dialect: 'python', flags: 'i' })
+ * => '(?i:ca(?:mel|t))'
+ * source(qw('cat camel'), { dialect: 'posix', bound: true })
+ * => '(^|[^[:alnum:]_])ca(mel|t)([^[:alnum:]_]|$)'
+ * ```
+ *
+ * @param {string[]} words - phrases to match
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to build the expression, including its dialect
+ * @returns {string} regular expression source matching `words`
+ */
+export function source(words: readonly string[], opts: ListMatcherOptions = {}): string {
+  const dialect = opts.dialect ?? 'javascript'
+  if (dialect === 'javascript') return regex(words, opts).source
+  return limited(renderPattern(...build(words, opts)), opts)
+}
+
+/**
+ * The result of {@link verify}.
+ *
+ * @export
+ * @typedef {Verification}
+ */
+export type Verification = {
+  /** the expression verified, as {@link regex} makes it */
+  regex: RegExp
+  /** whether the expression matches exactly the phrases */
+  exact: boolean
+  /** phrases, as given, which the expression does not match in full */
+  missing: string[]
+  /** strings the expression matches which no phrase does, normalized as phrases are */
+  extra: string[]
+}
+
+/**
+ * Checks that the expression {@link regex} makes matches exactly the given phrases.
+ *
+ * @remarks
+ * Every string the syntax tree of the expression can match is enumerated and compared with the phrases, normalized as
+ * `regex` normalizes them. Substitutions, runs of whitespace, wildcards, word boundaries, and the classes of accented
+ * forms `ignoreDiacritics` makes are compared symbolically, as the substitution, boundary, or class itself rather than
+ * the strings it may match. Extra strings are written with the key of a substitution where it occurs, a single space
+ * for a run of whitespace, `?` for a wildcard, the first character of a class of accented forms, and nothing for a word
+ * boundary. Each phrase without substitutions or wildcards is also searched for with the expression itself, which must
+ * match it in full rather than some prefix of it. An error is thrown if the expression matches too many strings to
+ * enumerate, as may happen when many long phrases are matched without regard to case.
+ *
+ * @example
+ * ```ts
+ * verify(qw('cat cats'))
+ * => { regex: /cats?/, exact: true, missing: [], extra: [] }
+ * ```
+ *
+ * @param {string[]} words - phrases to match
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expression
+ * @returns {Verification} the expression, with any differences between the strings it matches and `words`
+ */
+export function verify(words: readonly string[], opts: ListMatcherOptions = {}): Verification {
+  javascriptOnly(opts)
+  const [ast, options] = build(words, opts)
+  const rx = new RegExp(renderPattern(ast, options), ast.flags)
+  // substitutions with the same pattern are the same symbol
+  const placeholders = Array.from(options.placeholders)
+  const symbols = new Map<string, number>()
+  const keys = new Map<number, string>()
+  Object.keys(opts.substitutions ?? {}).forEach((key, i) => {
+    const to = options.subtitutions![-placeholders[i]]
+    if (!symbols.has(to)) {
+      symbols.set(to, -placeholders[i])
+      keys.set(-placeholders[i], key)
+    }
+  })
+  // a character and its accented forms are the code point of their composite, as there may be too many to enumerate
+  const classes = new Map<string, number>()
+  if (options.ignoreDiacritics) {
+    symbols.set(options.marks, SPECIAL_CODE_POINTS.combiningMarks)
+    for (const [c, key] of Object.entries(options.composites.keys)) {
+      if (!key.startsWith('d:')) continue
+      const members = key.slice(2)
+      classes.set(members, Number(c))
+      keys.set(Number(c), String.fromCodePoint(Number(members.split(',')[0])))
+    }
+  }
+  keys.set(SPECIAL_CODE_POINTS.anyCharacter, '?')
+  const symbol = (c: number) =>
+    c < -127 && c > FIRST_COMPOSITE_CODE_POINT ? symbols.get(options.subtitutions![c])! : c
+  const matched = new Set(language(ast.node, symbols, classes).map((path) => path.join()))
+  const expected = new Set<string>()
+  const finder = new RegExp(rx.source, rx.flags.replace(/[gy]/g, '') + 'y')
+  const missing: string[] = []
+  for (const phrase of words) {
+    let found = true
+    for (const e of options.expand(phrase)) {
+      const w = options.normalize(e)
+      if (!w.length) continue
+      const encoded = encodePhrase(w, options.isCaseless(e), options)
+      for (const variant of encodings(w, options.isCaseless(e), options)) {
+        let paths: number[][] = [[]]
+        for (const c of variant) {
+          paths = product(
+            paths,
+            c <= FIRST_COMPOSITE_CODE_POINT ? language(options.composites.nodes[c], symbols, classes) : [[symbol(c)]],
+          )
+        }
+        for (const path of paths) {
+          const key = path.join()
+          expected.add(key)
+          if (!matched.has(key)) found = false
+        }
+      }
+      const text = phraseText(w, options)
+      if (found && text !== undefined && !encoded.some((c) => c < -127 && c > FIRST_COMPOSITE_CODE_POINT)) {
+        finder.lastIndex = 0
+        found = finder.exec(text)?.[0].length === text.length
+      }
+    }
+    if (!found && !missing.includes(phrase)) missing.push(phrase)
+  }
+  const extra: string[] = []
+  matched.forEach((key) => {
+    if (expected.has(key)) return
+    const path = key.split(',').map(Number)
+    extra.push(
+      path
+        .map((c) => (c >= 0 ? String.fromCodePoint(c) : c === SPECIAL_CODE_POINTS.whiteSpace ? ' ' : keys.get(c) ?? ''))
+        .join(''),
+    )
+  })
+  extra.sort()
+  return { regex: rx, exact: !missing.length && !extra.length, missing, extra }
+}
+
+/**
+ * Reads a regular expression that is a list of alternative phrases back into a list and remakes it with {@link regex}.
+ *
+ * @remarks
+ * Each alternative may contain literal characters, escaped metacharacters, character classes, shorthands such as
+ * `\d`, `.`, and word boundaries. Small character classes are expanded into several phrases; other classes,
+ * shorthands, and boundaries are kept as substitutions. The flags of the expression are kept. Groups, quantifiers,
+ * anchors, backreferences, and empty alternatives cannot be read as a list of phrases, and an error explaining which
+ * was found where is thrown instead.
+ *
+ * @example
+ * ```ts
+ * optimize(/cat|camel|carp|dog/)
+ * => /(?:ca(?:mel|rp|t)|dog)/
+ * optimize('\\bcat\\b|\\bcot\\b|c\\.t')
+ * => /(?:\bc[ao]t\b|c\.t)/
+ * ```
+ *
+ * @param {(RegExp | string)} rx - the expression, or the source of one without flags
+ * @returns {RegExp} an expression matching the same phrases
+ */
+export function optimize(rx: RegExp | string): RegExp {
+  const [source, flags] = typeof rx === 'string' ? [rx, ''] : [rx.source, rx.flags]
+  const branches = readAlternation(source, flags.includes('u'))
+  if (branches.some((atoms) => !atoms.length))
+    throw new ListMatcherError(
+      'UNREADABLE_EXPRESSION',
+      `cannot read /${source}/ as a list of phrases: an alternative is empty`,
+    )
+  const used = new Set<number>()
+  for (const atoms of branches) for (const atom of atoms) atom.codePoints?.forEach((c) => used.add(c))
+  // makes the expression with character classes expanded into phrases or kept as substitutions
+  const remake = (expand: boolean) => {
+    // the key of each substitution is some private use character not otherwise used
+    const substitutions: Record<string, string> = {}
+    const keys = new Map<string, string>()
+    let next = 0xe000
+    const key = (pattern: string) => {
+      if (!keys.has(pattern)) {
+        while (used.has(next)) next++
+        const k = String.fromCodePoint(next++)
+        keys.set(pattern, k)
+        substitutions[k] = pattern
+      }
+      return keys.get(pattern)!
+    }
+    const phrases: string[] = []
+    for (const atoms of branches) {
+      // expand the larger classes only so far as the number of phrases stays reasonable
+      const expanded = atoms.filter((atom) => atom.codePoints && (expand || atom.codePoints.length < 2))
+      const phraseCount = () => expanded.reduce((n, atom) => n * atom.codePoints!.length, 1)
+      while (phraseCount() > MAX_EXPANSION) {
+        expanded.sort((a, b) => a.codePoints!.length - b.codePoints!.length)
+        expanded.pop()
+      }
+      let expansions = ['']
+      for (const atom of atoms) {
+        const parts = expanded.includes(atom)
+          ? atom.codePoints!.map((c) => String.fromCodePoint(c))
+          : [key(atom.source)]
+        const longer: string[] = []
+        for (const e of expansions) for (const part of parts) longer.push(e + part)
+        expansions = longer
+      }
+      for (const e of expansions) phrases.push(e)
+    }
+    return regex(phrases, { flags, substitutions })
+  }
+  // expanding classes usually lets them merge with others, but sometimes it makes a longer expression
+  const expanded = remake(true)
+  const kept = remake(false)
+  return kept.source.length < expanded.source.length ? kept : expanded
+}
+
+/**
+ * A node in the syntax tree produced by {@link parse}.
+ *
+ * @export
+ * @typedef {AstNode}
+ */
+export type AstNode =
+  | LiteralNode
+  | SequenceNode
+  | AlternationNode
+  | OptionalNode
+  | CharClassNode
+  | RepetitionNode
+  | BoundaryNode
+  | SubstitutionNode
+  | WhiteSpaceNode
+  | AnyCharacterNode
+  | AnchorNode
+  | CaptureNode
+  | FailNode
+
+/** a single character */
+export type LiteralNode = { type: 'literal'; codePoint: number }
+/** nodes matched one after another */
+export type SequenceNode = { type: 'sequence'; nodes: AstNode[] }
+/** nodes tried in order until one matches */
+export type AlternationNode = { type: 'alternation'; alternatives: AstNode[] }
+/** a node that may be skipped */
+export type OptionalNode = { type: 'optional'; node: AstNode }
+/** any one of a set of characters, given in ascending order */
+export type CharClassNode = { type: 'charClass'; codePoints: number[] }
+/** a node matched from `min` to `max` times in succession */
+export type RepetitionNode = { type: 'repetition'; node: AstNode; min: number; max: number }
+/**
+ * a word boundary, defined by ASCII or unicode word characters, or by the expression given as the `bound` option;
+ * with `marks`, from the `graphemes` option, combining marks are unicode word characters too
+ */
+export type BoundaryNode = {
+  type: 'boundary'
+  side: 'left' | 'right'
+  unicode: boolean
+  marks?: boolean
+  wordCharacter?: string
+}
+/** an expression from the `substitutions` option, used verbatim */
+export type SubstitutionNode = { type: 'substitution'; pattern: string }
+/** a run of whitespace, from the `normalizeWhitespace` option */
+export type WhiteSpaceNode = { type: 'whiteSpace' }
+/**
+ * any single character, from the `?` wildcard of the `glob` option, or any but those in `except`, from a typo the
+ * `fuzzy` option allows
+ */
+export type AnyCharacterNode = { type: 'anyCharacter'; except?: number[] }
+/** the start or end of the string or line, from the `anchor` option */
+export type AnchorNode = { type: 'anchor'; side: 'start' | 'end' }
+/** a capture group, named or not */
+export type CaptureNode = { type: 'capture'; node: AstNode; name?: string }
+/** an expression that never matches, as for an empty list */
+export type FailNode = { type: 'fail' }
+
+/**
+ * The root of the syntax tree produced by {@link parse}: an expression together with the flags it needs.
+ *
+ * @export
+ * @typedef {PatternNode}
+ */
+export type PatternNode = { type: 'pattern'; node: AstNode; flags: string }
+
+/**
+ * What a {@link Renderer} may need to know besides the node it is rendering.
+ *
+ * @export
+ * @typedef {RenderContext}
+ */
+export type RenderContext = {
+  /** renders a child node with the same renderer */
+  render: (node: AstNode) => string
+  /** the flags of the pattern being rendered */
+  flags: string
+}
+
+/**
+ * Functions turning each type of node into a fragment of a pattern. See {@link render}.
+ *
+ * @export
+ * @typedef {Renderer}
+ */
+export type Renderer = {
+  [T in (AstNode | PatternNode)['type']]: (
+    node: Extract<AstNode | PatternNode, { type: T }>,
+    context: RenderContext,
+  ) => string
+}
+
+/**
+ * Generates the syntax tree of a regular expression matching a list of strings.
+ *
+ * @remarks
+ * This is the tree {@link regex} and {@link source} render. Alternatives are in the order in which they will be
+ * tried. You may inspect or transform the tree before giving it to {@link render}.
+ *
+ * @example
+ * ```ts
+ * parse(qw('cat cot'))
+ * => {
+ *   type: 'pattern',
+ *   node: {
+ *     type: 'sequence',
+ *     nodes: [
+ *       { type: 'literal', codePoint: 99 },
+ *       { type: 'charClass', codePoints: [97, 111] },
+ *       { type: 'literal', codePoint: 116 },
+ *     ],
+ *   },
+ *   flags: '',
+ * }
+ * ```
+ *
+ * @param {string[]} words - phrases to match
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to build the expression, including its dialect
+ * @returns {PatternNode} the syntax tree of an expression matching `words`
+ */
+export function parse(words: readonly string[], opts: ListMatcherOptions = {}): PatternNode {
+  return build(words, opts)[0]
+}
+
+/**
+ * Turns a syntax tree into the source of a regular expression.
+ *
+ * @remarks
+ * The flags of a {@link PatternNode} are expressed inline if the renderer's dialect has inline flags;
+ * otherwise they must be given to the regular expression engine separately.
+ *
+ * @example
+ * ```ts
+ * render(parse(qw('cat cot')))
+ * => 'c[ao]t'
+ * const charClass = (n) => `(?:${n.codePoints.map((c) => String.fromCodePoint(c)).join('|')})`
+ * render(parse(qw('cat cot')), { ...renderer(), charClass })
+ * => 'c(?:a|o)t'
+ * ```
+ *
+ * @param {(PatternNode | AstNode)} ast - the tree to render
+ * @param {Renderer} [backend=renderer()] - functions rendering each type of node
+ * @returns {string} regular expression source
+ */
+export function render(ast: PatternNode | AstNode, backend: Renderer = renderer()): string {
+  if (ast.type === 'pattern') return backend.pattern(ast, renderContext(ast.flags, backend))
+  return renderContext('', backend).render(ast)
+}
+
+/**
+ * Makes the {@link Renderer} for a dialect, which you may modify to make your own.
+ *
+ * @param {Dialect} [dialect='javascript'] - the regular expression engine to write patterns for
+ * @returns {Renderer} functions rendering each type of node in `dialect`
+ */
+export function renderer(dialect: Dialect = 'javascript'): Renderer {
+  return syntaxRenderer(SYNTAXES[dialect])
 }
 
 /**
@@ -71,11 +738,321 @@ export function qw(s: string, splitter: string | RegExp = /\s+/): string[] {
   return s.split(splitter).filter((p) => p)
 }
 
+/**
+ * A match found by a {@link Matcher}.
+ *
+ * @export
+ * @typedef {ListMatch}
+ * @template T - the type of the payloads associated with phrases
+ * @template P - the phrases, as a union of string literal types where these are known
+ */
+export type ListMatch<T = undefined, P extends string = string> = {
+  /** the first of the phrases matched */
+  phrase: P
+  /** all the phrases, as originally given, that normalize to the matched text */
+  phrases: P[]
+  /** the payloads of the phrases matched, in the same order */
+  payloads: (T | undefined)[]
+  /** the offset of the match in the string searched */
+  index: number
+  /** the text matched */
+  text: string
+  /** with the `fuzzy` option, the number of edits between the text and the phrases matched, which are the nearest */
+  distance?: number
+}
+
+/**
+ * A compiled list of phrases that can report which phrase matched. See {@link matcher}.
+ *
+ * @export
+ * @typedef {Matcher}
+ * @template T - the type of the payloads associated with phrases
+ * @template P - the phrases, as a union of string literal types where these are known
+ */
+export type Matcher<T = undefined, P extends string = string> = {
+  /** the expression produced by {@link regex} */
+  regex: RegExp
+  /** whether any phrase matches in `text` */
+  test: (text: string) => boolean
+  /** the first match in `text` at or after `start` */
+  exec: (text: string, start?: number) => ListMatch<T, P> | null
+  /** all non-overlapping matches in `text` */
+  matchAll: (text: string) => ListMatch<T, P>[]
+}
+
+/**
+ * Generates a {@link Matcher} for a list of phrases, optionally paired with payloads.
+ *
+ * @remarks
+ * Where the phrases are known to the compiler, as in a literal list or one declared `as const`, the phrases of each
+ * match are typed as the union of these, so a `switch` on the phrase matched can be exhaustive.
+ *
+ * @example
+ * ```ts
+ * const m = matcher(['Cat', 'cat', ['dog', 1]], { flags: 'i' })
+ * m.exec('hot dog')
+ * => { phrase: 'dog', phrases: ['dog'], payloads: [1], index: 4, text: 'dog' }
+ * m.exec('CAT').phrases
+ * => ['Cat', 'cat']
+ * ```
+ *
+ * @param {readonly (P | readonly [P, T])[]} words - phrases to match, or phrases with their payloads
+ * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expression
+ * @returns {Matcher<T, P>} an object wrapping the regular expression matching `words`
+ */
+export function matcher<T = undefined, P extends string = string>(
+  words: readonly (P | readonly [P, T])[],
+  opts: ListMatcherOptions = {},
+): Matcher<T, P> {
+  const phrases: P[] = []
+  const payloads: (T | undefined)[] = []
+  for (const w of words) {
+    if (typeof w === 'string') {
+      phrases.push(w)
+      payloads.push(undefined)
+    } else {
+      phrases.push(w[0])
+      payloads.push(w[1])
+    }
+  }
+  const rx = regex(phrases, opts)
+  const finder = new RegExp(rx.source, rx.flags.includes('g') ? rx.flags : rx.flags + 'g')
+  const lookup = phraseLookup(phrases, opts)
+  const toMatch = (m: RegExpExecArray): ListMatch<T, P> => {
+    const [found, distance] = lookup(m[0])
+    const match: ListMatch<T, P> = {
+      phrase: phrases[found[0]],
+      phrases: found.map((i) => phrases[i]),
+      payloads: found.map((i) => payloads[i]),
+      index: m.index,
+      text: m[0],
+    }
+    if (opts.fuzzy?.maxEdits) match.distance = distance
+    return match
+  }
+  const exec = (text: string, start = 0): ListMatch<T, P> | null => {
+    finder.lastIndex = start
+    const m = finder.exec(text)
+    return m ? toMatch(m) : null
+  }
+  return {
+    regex: rx,
+    test: (text) => exec(text) !== null,
+    exec,
+    matchAll: (text) => {
+      const matches: ListMatch<T, P>[] = []
+      finder.lastIndex = 0
+      let m
+      while ((m = finder.exec(text))) {
+        matches.push(toMatch(m))
+        if (m[0].length === 0) finder.lastIndex++
+      }
+      return matches
+    },
+  }
+}
+
+/**
+ * Several regular expressions searched as one. See {@link union}.
+ *
+ * @export
+ * @typedef {Union}
+ */
+export type Union = {
+  /** the expressions searched, as given */
+  regexes: RegExp[]
+  /** whether any expression matches in `text` */
+  test: (text: string) => boolean
+  /** the leftmost match of any expression in `text` at or after `start`, the longest where several begin there */
+  exec: (text: string, start?: number) => RegExpExecArray | null
+  /** all non-overlapping leftmost-longest matches in `text` */
+  matchAll: (text: string) => RegExpExecArray[]
+}
+
+/**
+ * Generates a {@link Union} searching with several regular expressions, such as those made by {@link regexes}.
+ *
+ * @remarks
+ * Each search finds the leftmost match of any of the expressions. Where several expressions match at the same offset
+ * the longest match is taken, and of equally long matches that of the earliest expression.
+ *
+ * @example
+ * ```ts
+ * const u = union(regexes(qw('cat category dog'), { maxSourceLength: 10 }))
+ * u.exec('a category')
+ * => ['category', index: 2, input: 'a category', groups: undefined]
+ * u.matchAll('dog cat').map((m) => m[0])
+ * => ['dog', 'cat']
+ * ```
+ *
+ * @param {RegExp[]} rxs - the expressions to search with
+ * @returns {Union} an object searching with all of `rxs`
+ */
+export function union(rxs: RegExp[]): Union {
+  const finders = rxs.map((rx) => new RegExp(rx.source, rx.flags.includes('g') ? rx.flags : rx.flags + 'g'))
+  // the match of each expression found by the last search, which serves for later searches until it is passed
+  const search = (text: string, start: number, found: (RegExpExecArray | null | undefined)[]) => {
+    let best: RegExpExecArray | null = null
+    for (let i = 0; i < finders.length; i++) {
+      let m = found[i]
+      if (m === undefined || (m && m.index < start)) {
+        finders[i].lastIndex = start
+        m = found[i] = finders[i].exec(text)
+      }
+      if (m && (!best || m.index < best.index || (m.index === best.index && m[0].length > best[0].length))) best = m
+    }
+    return best
+  }
+  const exec = (text: string, start = 0) => search(text, start, [])
+  return {
+    regexes: rxs,
+    test: (text) => exec(text) !== null,
+    exec,
+    matchAll: (text) => {
+      const matches: RegExpExecArray[] = []
+      const found: (RegExpExecArray | null | undefined)[] = []
+      let start = 0
+      let m
+      while (start <= text.length && (m = search(text, start, found))) {
+        matches.push(m)
+        start = m.index + Math.max(m[0].length, 1)
+      }
+      return matches
+    },
+  }
+}
+
+/**
+ * A list of phrases that may change, with a regular expression matching them.
+ *
+ * @remarks
+ * The phrases are kept in a trie from which the expression is remade only when it is next asked for, and then only
+ * along the paths of the phrases added or removed since. The expression is always the same as {@link regex} would
+ * make for the same phrases and options. A few changes require everything to be remade: adding a phrase that needs
+ * the `u` flag where none has before, removing such a phrase when the flag was not given, and adding a phrase
+ * containing a character used internally to stand for a substitution. With the `mergeSuffixes` option the expression
+ * is always remade in full, though the trie is kept.
+ *
+ * @example
+ * ```ts
+ * const m = new ListMatcher(qw('cat camel'))
+ * m.regex
+ * => /ca(?:mel|t)/
+ * m.add('cow').remove('camel').regex
+ * => /c(?:at|ow)/
+ * m.has('camel')
+ * => false
+ * ```
+ */
+export class ListMatcher {
+  private readonly opts: ListMatcherOptions
+  private readonly phrases = new Set<string>()
+  private index?: PhraseIndex
+  private compiled?: RegExp
+
+  /**
+   * @param {string[]} [words=[]] - the initial phrases to match
+   * @param {ListMatcherOptions} [opts={}] - flags and directives for how to construct the expression
+   */
+  constructor(words: readonly string[] = [], opts: ListMatcherOptions = {}) {
+    javascriptOnly(opts)
+    this.opts = opts
+    this.add(...words)
+  }
+
+  /**
+   * Adds phrases to the list.
+   *
+   * @param {...string[]} words - phrases to match
+   * @returns {this} the matcher, for chaining
+   */
+  add(...words: string[]): this {
+    for (const w of words) {
+      if (this.phrases.has(w)) continue
+      this.phrases.add(w)
+      this.compiled = undefined
+      if (this.index && !indexPhrase(this.index, w)) this.index = undefined
+    }
+    return this
+  }
+
+  /**
+   * Removes phrases from the list. Phrases not in the list are ignored.
+   *
+   * @param {...string[]} words - phrases no longer to match
+   * @returns {this} the matcher, for chaining
+   */
+  remove(...words: string[]): this {
+    for (const w of words) {
+      if (!this.phrases.delete(w)) continue
+      this.compiled = undefined
+      if (this.index && !unindexPhrase(this.index, w)) this.index = undefined
+    }
+    return this
+  }
+
+  /**
+   * Whether a phrase, as given, is in the list.
+   *
+   * @param {string} word - a phrase
+   * @returns {boolean} whether `word` has been added and not since removed
+   */
+  has(word: string): boolean {
+    return this.phrases.has(word)
+  }
+
+  /** the expression matching the phrases currently in the list */
+  get regex(): RegExp {
+    if (!this.compiled) {
+      this.index ??= phraseIndex(this.phrases, this.opts)
+      const { options, trie } = this.index
+      const ast = pattern(condenseTrie(trie, options), options)
+      this.compiled = new RegExp(limited(renderPattern(ast, options), this.opts), ast.flags)
+    }
+    return this.compiled
+  }
+}
+
 type Opts = {
   bound: boolean
+  // with bound given as a RegExp, the expression matching a word character
+  wordCharacter?: string
+  // with bound given as a RegExp or a function, whether a character is a word character
+  isWordCharacter?: (c: string) => boolean
+  anchor?: 'string' | 'line'
+  // the edits the fuzzy option allows
+  maxEdits: number
+  transpositions: boolean
   capture: boolean
   normalizeWhitespace: boolean
+  graphemes: boolean
+  mergeSuffixes: boolean
+  strict: boolean
+  ignoreDiacritics: boolean
+  // an expression matching any combining marks following a character
+  marks: string
+  // the locale by whose rules case is folded
+  locale: string
   subtitutions?: Record<number, string>
+  // whether each substitution begins and ends with a word character
+  wordEdges: Record<number, [boolean, boolean]>
+  // the characters standing in for substitutions in normalized phrases
+  placeholders: Set<number>
+  // the sets of interchangeable characters by each of their members, as they are and once case is folded
+  equivalences: Map<number, Equivalent>
+  foldedEquivalences: Map<number, Equivalent>
+  glob: boolean
+  // the phrases a phrase stands for, more than one where the glob option expands braces
+  expand: (w: string) => string[]
+  composites: Composites
+  renderer: Renderer
+  // renderings of nodes already made
+  renderings: WeakMap<AstNode, string>
+  // the context in which nodes are rendered as they are made, for the flags they were made with
+  context?: RenderContext
+  caseless?: Set<string>
+  isCaseless: (w: string) => boolean
+  normalize: (w: string) => string
   global: boolean
   caseInsensitive: boolean
   unicode: boolean
@@ -84,21 +1061,249 @@ type Opts = {
   dotall: boolean
 }
 
+// a set of interchangeable characters, the first of which stands for the rest in normalized phrases
+type Equivalent = { members: number[]; optional: boolean; whiteSpace: boolean }
+
+// atoms consisting of more than one code point, such as grapheme clusters, are given special code points
+// below the range of negated real code points
+// composites that stand for a set of code points, such as [Cc], keep their members so they can be merged
+// into larger character classes
+// the code assigned to a composite depends on the order in which composites are found, so composites are ordered by key
+type Composites = {
+  next: number
+  codes: Record<string, number>
+  keys: Record<number, string>
+  nodes: Record<number, AstNode>
+  members: Record<number, number[]>
+}
+
+const FIRST_COMPOSITE_CODE_POINT = -0x110000
+
+// the most strings verify will enumerate
+const MAX_LANGUAGE_SIZE = 100000
+
+// the most phrases optimize will make of a single alternative by expanding character classes
+const MAX_EXPANSION = 1000
+
+// the most characters a class may have for optimize to expand it
+const MAX_CLASS_SIZE = 64
+
+// a valid javascript identifier, or group name
+const IDENTIFIER = /^[\p{L}\p{Nl}$_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$\u200c\u200d]*$/u
+
+// identifiers that cannot name a constant
+const RESERVED_WORDS = qw(`
+  await break case catch class const continue debugger default delete do else enum export extends false finally for
+  function if implements import in instanceof interface let new null package private protected public return static
+  super switch this throw true try typeof var void while with yield
+`)
+
+// the nodes whose renderings are kept -- the sequences and repetitions between one group and the next are cheaper
+// to render again than to keep
+const GROUPS = new Set<AstNode['type']>(['alternation', 'optional', 'capture'])
+
 // the block from -1 to -127 is reserved for special substitutions like this
 const SPECIAL_CODE_POINTS = {
   whiteSpace: -1,
-  asciiBoundary: -2,
+  asciiLeftBoundary: -2,
   unicodeLeftBoundary: -3,
   unicodeRightBoundary: -4,
+  asciiRightBoundary: -5,
+  // never in a phrase, but a symbol for verify
+  combiningMarks: -6,
+  anyCharacter: -7,
+  customLeftBoundary: -8,
+  customRightBoundary: -9,
 } as const
 
-const CHAR_CLASS_META = '-\\]^'.split('').map((c) => c.codePointAt(0))
-const META = '^$+*?.|()[{\\'.split('').map((c) => c.codePointAt(0))
+const BOUNDARY_CODE_POINTS: number[] = [
+  SPECIAL_CODE_POINTS.asciiLeftBoundary,
+  SPECIAL_CODE_POINTS.unicodeLeftBoundary,
+  SPECIAL_CODE_POINTS.unicodeRightBoundary,
+  SPECIAL_CODE_POINTS.asciiRightBoundary,
+  SPECIAL_CODE_POINTS.customLeftBoundary,
+  SPECIAL_CODE_POINTS.customRightBoundary,
+]
+
+const CHAR_CLASS_META = '-\\]^'.split('').map((c) => c.codePointAt(0)!)
+const META = '^$+*?.|()[{\\'.split('').map((c) => c.codePointAt(0)!)
+const UNICODE_META = '^$+*?.|()[]{}\\'.split('').map((c) => c.codePointAt(0)!)
+
+// the syntax of a regular expression dialect, so far as list-matcher needs to know it
+type Syntax = {
+  // metacharacters outside and inside character classes
+  meta: number[]
+  charClassMeta: number[]
+  // escapes for unprintable characters
+  controls: Record<number, string>
+  // the opening of a non-capturing group
+  group: string
+  // the opening of a named capture group, up to the name, if the dialect has them
+  namedGroup?: string
+  // whether \d and \w match only ASCII characters
+  shorthands: boolean
+  // whether escapes work in character classes
+  charClassEscapes: boolean
+  // whether case insensitivity can be expressed with a flag
+  caseFlag: boolean
+  // whether the dialect has inline flag groups -- (?i:...)
+  inlineFlags: boolean
+  // whether the dialect has lookaheads and lookbehinds
+  lookarounds: boolean
+  // expressions for the special code points
+  asciiLeftBoundary: string
+  asciiRightBoundary: string
+  unicodeLeftBoundary: string
+  unicodeRightBoundary: string
+  // unicode boundaries counting combining marks as word characters, for the graphemes option
+  graphemeLeftBoundary: string
+  graphemeRightBoundary: string
+  whiteSpace: string
+  // any number of combining marks
+  combiningMarks: string
+  // the characters a dot does not match without the s flag, as they are written in a character class
+  lineTerminators: string
+  // an expression that never matches
+  never: string
+}
+
+// the blocks of combining diacritical marks, for dialects without property escapes
+const COMBINING_MARK_BLOCKS = '\u0300-\u036f\u1ab0-\u1aff\u1dc0-\u1dff\u20d0-\u20ff\ufe20-\ufe2f'
+const COMBINING_MARK_BLOCKS_ESCAPED = '\\u0300-\\u036f\\u1ab0-\\u1aff\\u1dc0-\\u1dff\\u20d0-\\u20ff\\ufe20-\\ufe2f'
+const COMBINING_MARKS = `[${COMBINING_MARK_BLOCKS}]*`
+const COMBINING_MARKS_ESCAPED = `[${COMBINING_MARK_BLOCKS_ESCAPED}]*`
+
+const JAVASCRIPT_SYNTAX: Syntax = {
+  meta: META,
+  charClassMeta: CHAR_CLASS_META,
+  controls: { 0: '\\0', 9: '\\t', 10: '\\n', 11: '\\v', 12: '\\f', 13: '\\r' },
+  group: '(?:',
+  namedGroup: '(?<',
+  shorthands: true,
+  charClassEscapes: true,
+  caseFlag: true,
+  inlineFlags: false,
+  lookarounds: true,
+  asciiLeftBoundary: '\\b',
+  asciiRightBoundary: '\\b',
+  unicodeLeftBoundary: '(?<![\\p{L}\\p{N}_])',
+  unicodeRightBoundary: '(?![\\p{L}\\p{N}_])',
+  graphemeLeftBoundary: '(?<![\\p{L}\\p{M}\\p{N}_])',
+  graphemeRightBoundary: '(?![\\p{L}\\p{M}\\p{N}_])',
+  whiteSpace: '\\s+',
+  combiningMarks: '\\p{M}*',
+  lineTerminators: '\\n\\r\\u2028\\u2029',
+  never: '(?!)',
+}
+
+// PCRE, as used by PHP, Perl, grep -P, etc.
+const PCRE_SYNTAX: Syntax = {
+  ...JAVASCRIPT_SYNTAX,
+  meta: UNICODE_META,
+  charClassMeta: '-[\\]^'.split('').map((c) => c.codePointAt(0)!),
+  // \v is a class of vertical whitespace in several engines
+  controls: { 0: '\\x00', 9: '\\t', 10: '\\n', 11: '\\x0b', 12: '\\f', 13: '\\r' },
+  inlineFlags: true,
+  lineTerminators: '\\n',
+}
+
+const SYNTAXES: Record<Dialect, Syntax> = {
+  javascript: JAVASCRIPT_SYNTAX,
+  pcre: PCRE_SYNTAX,
+  java: {
+    ...PCRE_SYNTAX,
+    // && is intersection in a Java character class
+    charClassMeta: '-&[\\]^'.split('').map((c) => c.codePointAt(0)!),
+    lineTerminators: '\\n\\r\\u0085\\u2028\\u2029',
+  },
+  python: {
+    ...PCRE_SYNTAX,
+    namedGroup: '(?P<',
+    // \d and \w match non-ASCII characters in python 3
+    shorthands: false,
+    // the re module has no property escapes, but \w is unicode-aware
+    unicodeLeftBoundary: '(?<!\\w)',
+    unicodeRightBoundary: '(?!\\w)',
+    graphemeLeftBoundary: `(?<![\\w${COMBINING_MARK_BLOCKS_ESCAPED}])`,
+    graphemeRightBoundary: `(?![\\w${COMBINING_MARK_BLOCKS_ESCAPED}])`,
+    combiningMarks: COMBINING_MARKS_ESCAPED,
+  },
+  re2: {
+    ...PCRE_SYNTAX,
+    namedGroup: '(?P<',
+    // RE2, as used by Go, has no lookarounds
+    lookarounds: false,
+    unicodeLeftBoundary: '(?:^|[^\\p{L}\\p{N}_])',
+    unicodeRightBoundary: '(?:[^\\p{L}\\p{N}_]|$)',
+    graphemeLeftBoundary: '(?:^|[^\\p{L}\\p{M}\\p{N}_])',
+    graphemeRightBoundary: '(?:[^\\p{L}\\p{M}\\p{N}_]|$)',
+    never: '\\b\\B',
+  },
+  posix: {
+    meta: '^$+*?.|()[{\\'.split('').map((c) => c.codePointAt(0)!),
+    charClassMeta: [],
+    controls: {},
+    group: '(',
+    namedGroup: undefined,
+    shorthands: false,
+    charClassEscapes: false,
+    caseFlag: false,
+    inlineFlags: false,
+    lookarounds: false,
+    asciiLeftBoundary: '(^|[^[:alnum:]_])',
+    asciiRightBoundary: '([^[:alnum:]_]|$)',
+    unicodeLeftBoundary: '(^|[^[:alnum:]_])',
+    unicodeRightBoundary: '([^[:alnum:]_]|$)',
+    graphemeLeftBoundary: `(^|[^[:alnum:]_${COMBINING_MARK_BLOCKS}])`,
+    graphemeRightBoundary: `([^[:alnum:]_${COMBINING_MARK_BLOCKS}]|$)`,
+    whiteSpace: '[[:space:]]+',
+    // the blocks of combining marks, as POSIX has no way to name them
+    combiningMarks: COMBINING_MARKS,
+    // a dot and a negated bracket expression match newlines alike
+    lineTerminators: '',
+    never: 'a^',
+  },
+}
+
+// the dialect option only makes sense when we are generating the source of a pattern
+function javascriptOnly(opts: ListMatcherOptions) {
+  if (opts.strict) checkOptions(opts)
+  if ((opts.dialect ?? 'javascript') !== 'javascript')
+    throw new ListMatcherError(
+      'UNSUPPORTED_DIALECT',
+      `a RegExp cannot be made in the ${opts.dialect} dialect; use source instead`,
+    )
+}
+
+// the options of ListMatcherOptions, for the strict option
+const OPTION_NAMES = qw(
+  'bound capture normalizeWhitespace flags substitutions graphemes ignoreCase dialect mergeSuffixes maxSourceLength maxDepth strict normalize ignoreDiacritics locale equivalences glob anchor fuzzy',
+)
+
+// with the strict option, options that would otherwise be ignored or misread are errors
+function checkOptions(opts: ListMatcherOptions): void {
+  for (const key of Object.keys(opts)) {
+    if (!OPTION_NAMES.includes(key)) throw new ListMatcherError('INVALID_OPTION', `unknown option: ${key}`)
+  }
+  if (opts.dialect !== undefined && !Object.keys(SYNTAXES).includes(opts.dialect))
+    throw new ListMatcherError('INVALID_OPTION', `unknown dialect: ${opts.dialect}`)
+  if (opts.normalize !== undefined && !qw('NFC NFD NFKC').includes(opts.normalize))
+    throw new ListMatcherError('INVALID_OPTION', `unknown normalization form: ${opts.normalize}`)
+  if (opts.anchor !== undefined && !qw('string line').includes(opts.anchor))
+    throw new ListMatcherError('INVALID_OPTION', `unknown anchor: ${opts.anchor}`)
+  const flags = opts.flags || ''
+  if (flags.split('').some((c, i) => !'gimsuy'.includes(c) || flags.indexOf(c) !== i))
+    throw new ListMatcherError('INVALID_FLAGS', `invalid flags: ${flags}`)
+}
 
-type Slice = {
-  codePoints: number[]
-  start: number
-  end: number
+// whether this javascript engine has the lookbehinds, and property escapes, that a word boundary needs
+function boundarySupported(boundary: string, unicode: boolean): boolean {
+  try {
+    new RegExp(boundary, unicode ? 'u' : '')
+    return true
+  } catch (e) {
+    return false
+  }
 }
 
 // convert options back into the flags that RegExp supports
@@ -116,204 +1321,1384 @@ function flags(options: Opts): string {
 // adjust options to those relevant to internal operations
 // normalize words by deduping, normalizing case, etc.
 function adjustOptions(words: string[], opts: ListMatcherOptions): Opts {
+  if (opts.strict) checkOptions(opts)
   const flags = opts.flags || ''
+  const syntax = SYNTAXES[opts.dialect ?? 'javascript']
   const options: Opts = {
     bound: !!opts.bound,
+    anchor: opts.anchor,
+    maxEdits: fuzziness(opts),
+    transpositions: !!opts.fuzzy?.transpositions,
     capture: !!opts.capture,
     normalizeWhitespace: !!opts.normalizeWhitespace,
+    graphemes: !!opts.graphemes,
+    mergeSuffixes: !!opts.mergeSuffixes,
+    strict: !!opts.strict,
+    ignoreDiacritics: !!opts.ignoreDiacritics,
+    marks: syntax.combiningMarks,
+    locale: opts.locale ?? '',
+    placeholders: new Set(),
+    wordEdges: {},
+    equivalences: new Map(),
+    foldedEquivalences: new Map(),
+    glob: !!opts.glob,
+    expand: opts.glob ? expandBraces : (w) => [w],
+    composites: { next: FIRST_COMPOSITE_CODE_POINT, codes: {}, keys: {}, nodes: {}, members: {} },
+    renderer: syntaxRenderer(syntax),
+    renderings: new WeakMap(),
+    isCaseless: () => false,
+    normalize: (w) => w,
     global: flags.includes('g'),
-    caseInsensitive: flags.includes('i'),
-    unicode: flags.includes('u'),
-    multiline: flags.includes('m'),
+    // without a case flag case insensitivity must be built into the pattern
+    caseInsensitive: flags.includes('i') && syntax.caseFlag,
+    unicode: unicodeRequested(opts),
+    // an anchor means the start and end of either the string or each line
+    multiline: opts.anchor ? opts.anchor === 'line' : flags.includes('m'),
     dotall: flags.includes('s'),
     sticky: flags.includes('y'),
   }
-  const doSubstitutions = prepareSubstitutions(opts, options, words)
-  const ignore = options.subtitutions ? Object.keys(options.subtitutions).map((s) => Number(s)) : []
-  const seen = new Set()
+  if (typeof opts.bound === 'object') {
+    // only the u flag of the class matters, as the class is written into the pattern
+    const character = new RegExp(`^(?:${opts.bound.source})$`, options.unicode ? 'u' : '')
+    options.wordCharacter = opts.bound.source
+    options.isWordCharacter = (c) => character.test(c)
+    // without lookarounds the boundary must consume the character beside it
+    if (!syntax.lookarounds) negatedClass(options.wordCharacter)
+  } else if (typeof opts.bound === 'function') {
+    options.isWordCharacter = opts.bound
+  }
+  // phrases are normalized before anything else, so substitutions must use characters the normalized phrases lack
+  const unify = (w: string) => {
+    if (opts.normalize) w = w.normalize(opts.normalize)
+    return opts.ignoreDiacritics ? withoutDiacritics(w) : w
+  }
+  const equate = prepareEquivalences(opts, options)
+  // placeholders must not be mistaken for interchangeable characters either
+  const interchangeable = Array.from(options.equivalences.keys()).concat(Array.from(options.foldedEquivalences.keys()))
+  const doSubstitutions = prepareSubstitutions(
+    opts,
+    options,
+    (opts.normalize || opts.ignoreDiacritics ? words.map(unify) : words).concat(
+      interchangeable.map((c) => String.fromCodePoint(c)),
+    ),
+  )
+  // phrases to be matched case-insensitively without the i flag
+  let marked: Set<string> | undefined
+  if (Array.isArray(opts.ignoreCase)) {
+    marked = new Set()
+    for (const w of opts.ignoreCase) for (const e of options.expand(w)) marked.add(e)
+  }
+  const allCaseless = opts.ignoreCase === true || (flags.includes('i') && !syntax.caseFlag)
+  const isCaseless = (w: string) => !options.caseInsensitive && (allCaseless || !!marked?.has(w))
+  options.isCaseless = isCaseless
+  // the text of a glob phrase is only trimmed at the ends of the phrase
+  const normalizeText = (w: string, folded: boolean, first = true, last = true) => {
+    w = doSubstitutions(unify(w))
+    if (options.normalizeWhitespace) {
+      w = w.replace(/\s+/g, ' ')
+      if (first) w = w.replace(/^ /, '')
+      if (last) w = w.replace(/ $/, '')
+    }
+    if (folded) w = foldCase(w, options.locale)
+    return equate(w, folded)
+  }
+  // the sets of a glob phrase are folded where case is
+  options.normalize = (w) => {
+    const folded = options.caseInsensitive || isCaseless(w)
+    if (options.glob) {
+      const parts = parseGlob(w).map((part, i, all) => {
+        if ('text' in part) return { text: normalizeText(part.text, folded, i === 0, i === all.length - 1) }
+        if ('set' in part && folded) return { set: foldedSet(part.set, options.locale) }
+        return part
+      })
+      w = globPhrase(parts)
+    } else {
+      w = normalizeText(w, folded)
+    }
+    // a phrase that may match nothing at all is dropped as an empty one is
+    if (onlyOptional(w, folded, options)) return ''
+    if (!options.unicode && nonAscii(w, folded, options)) options.unicode = true
+    return w
+  }
+  const sensitive = new Set<string>()
+  const caseless = new Set<string>()
+  for (const w of words) {
+    for (const e of options.expand(w)) {
+      const n = options.normalize(e)
+      if (n.length) (isCaseless(e) ? caseless : sensitive).add(n)
+    }
+  }
   const newWords: string[] = []
-  for (let i = 0; i < words.length; i++) {
-    let w = doSubstitutions(words[i])
-    if (seen.has(w)) continue
-    seen.add(w)
-    if (w.length === 0) continue
-    if (!options.unicode) {
-      for (let j = 0; j < w.length; j++) {
-        const c = w.codePointAt(j)
-        if (c && ignore.includes(c)) continue
-        if (c === undefined || c > 127) {
-          options.unicode = true
-          break
+  // case-sensitive phrases also matched by a caseless phrase are redundant
+  sensitive.forEach((w) => {
+    if (!caseless.size || !caseless.has(foldCase(w, options.locale))) newWords.push(w)
+  })
+  if (caseless.size) {
+    options.caseless = caseless
+    caseless.forEach((w) => newWords.push(w))
+  }
+  // so the same set of words, however ordered, always produces the same regex for a given set of options
+  newWords.sort()
+  // the list may be too long to spread into arguments
+  words.length = 0
+  for (const w of newWords) words.push(w)
+  if (options.strict && options.bound && syntax === JAVASCRIPT_SYNTAX) {
+    if (options.wordCharacter !== undefined) {
+      if (!boundarySupported(customBoundary('left', options.wordCharacter, syntax), options.unicode))
+        throw new ListMatcherError(
+          'UNSUPPORTED_FEATURE',
+          'word boundaries defined by a character class need lookbehinds, which this javascript engine lacks',
+        )
+    } else if (options.unicode && !boundarySupported(syntax.unicodeLeftBoundary, true)) {
+      throw new ListMatcherError(
+        'UNSUPPORTED_FEATURE',
+        'unicode word boundaries need lookbehinds and property escapes, which this javascript engine lacks',
+      )
+    }
+  }
+  return options
+}
+
+// whether the options call for the u flag, whatever the phrases
+// combining marks are matched by their property, and a class given as the bound option may need the flag
+function unicodeRequested(opts: ListMatcherOptions): boolean {
+  return (
+    (opts.flags || '').includes('u') ||
+    !!opts.ignoreDiacritics ||
+    (typeof opts.bound === 'object' && opts.bound.flags.includes('u'))
+  )
+}
+
+// the edits the fuzzy option allows, which must be a single edit or none
+function fuzziness(opts: ListMatcherOptions): number {
+  const maxEdits = opts.fuzzy?.maxEdits ?? 0
+  if (maxEdits !== 0 && maxEdits !== 1)
+    throw new ListMatcherError('INVALID_OPTION', `fuzzy matching allows at most one edit, not ${maxEdits}`)
+  return maxEdits
+}
+
+// whether the source of a pattern is within the maxSourceLength and maxDepth options
+function withinLimits(source: string, opts: ListMatcherOptions): boolean {
+  if (opts.maxSourceLength !== undefined && source.length > opts.maxSourceLength) return false
+  return opts.maxDepth === undefined || groupDepth(source) <= opts.maxDepth
+}
+
+// the source of a pattern, if it is within the limits
+function limited(source: string, opts: ListMatcherOptions): string {
+  if (!withinLimits(source, opts))
+    throw new ListMatcherError(
+      'LIMIT_EXCEEDED',
+      'the pattern exceeds the maxSourceLength or maxDepth option; use regexes to split it',
+    )
+  return source
+}
+
+// the deepest nesting of groups, including lookarounds, in the source of a pattern
+function groupDepth(source: string): number {
+  let depth = 0
+  let deepest = 0
+  let inClass = false
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i]
+    if (c === '\\') {
+      i++
+    } else if (inClass) {
+      if (c === ']') inClass = false
+    } else if (c === '[') {
+      inClass = true
+    } else if (c === '(') {
+      deepest = Math.max(deepest, ++depth)
+    } else if (c === ')') {
+      depth--
+    }
+  }
+  return deepest
+}
+
+// the sources of patterns within the limits which together match the phrases in a trie
+// subtrees are packed in order into as few patterns as will hold them; one that fits in none is split into its branches
+function splitTrie(trie: TrieNode, options: Opts, fits: (source: string) => boolean): string[] {
+  const sources: string[] = []
+  let bin = trieNode(0)
+  let source = ''
+  // adds phrases to the pattern being filled, unless it would then be too big
+  const place = (phrases: number[][]): boolean => {
+    for (const p of phrases) addToTrie(bin, p)
+    const s = renderPattern(pattern(condenseTrie(bin, options), options), options)
+    if (fits(s)) {
+      source = s
+      return true
+    }
+    for (const p of phrases) removeFromTrie(bin, p)
+    return false
+  }
+  // subtrees and single phrases yet to be placed, the next last
+  const pending: (TrieNode | number[])[] = [trie]
+  while (pending.length) {
+    const unit = pending.pop()!
+    const phrases = Array.isArray(unit) ? [unit] : phrasesOf(unit)
+    if (!phrases.length || place(phrases)) continue
+    if (bin.count) {
+      sources.push(source)
+      bin = trieNode(0)
+      if (place(phrases)) continue
+    }
+    if (phrases.length === 1)
+      throw new ListMatcherError(
+        'LIMIT_EXCEEDED',
+        'a phrase cannot be matched within the maxSourceLength or maxDepth option',
+      )
+    const node = unit as TrieNode
+    const children = Array.from(node.children.values())
+    for (let i = children.length - 1; i >= 0; i--) pending.push(children[i])
+    if (node.word) pending.push(node.word)
+  }
+  if (bin.count) sources.push(source)
+  return sources
+}
+
+// all the phrases in a subtree
+function phrasesOf(root: TrieNode): number[][] {
+  const phrases: number[][] = []
+  const stack = [root]
+  while (stack.length) {
+    const node = stack.pop()!
+    if (node.word) phrases.push(node.word)
+    if (node.tail) phrases.push(node.tail)
+    node.children.forEach((child) => stack.push(child))
+  }
+  return phrases
+}
+
+// every string a syntax tree matches, as code points
+// substitutions are the negative code points given for their patterns, classes the negative code points given for
+// their members, if any are, and whitespace and boundaries those of SPECIAL_CODE_POINTS
+function language(node: AstNode, symbols: Map<string, number>, classes: Map<string, number>): number[][] {
+  switch (node.type) {
+    case 'literal':
+      return [[node.codePoint]]
+    case 'charClass': {
+      const symbol = classes.get(node.codePoints.join())
+      return symbol === undefined ? node.codePoints.map((c) => [c]) : [[symbol]]
+    }
+    case 'sequence':
+      return node.nodes.reduce((paths, n) => product(paths, language(n, symbols, classes)), [[]] as number[][])
+    case 'alternation': {
+      const paths: number[][] = []
+      for (const n of node.alternatives) for (const path of language(n, symbols, classes)) paths.push(path)
+      return paths
+    }
+    case 'optional':
+      return [[], ...language(node.node, symbols, classes)]
+    case 'repetition': {
+      const unit = language(node.node, symbols, classes)
+      const paths: number[][] = []
+      let repeated: number[][] = [[]]
+      for (let i = 1; i <= node.max; i++) {
+        repeated = product(repeated, unit)
+        if (i >= node.min) for (const path of repeated) paths.push(path)
+      }
+      return paths
+    }
+    case 'capture':
+      return language(node.node, symbols, classes)
+    case 'boundary':
+      if (node.wordCharacter !== undefined)
+        return [
+          [node.side === 'left' ? SPECIAL_CODE_POINTS.customLeftBoundary : SPECIAL_CODE_POINTS.customRightBoundary],
+        ]
+      if (node.side === 'left')
+        return [[node.unicode ? SPECIAL_CODE_POINTS.unicodeLeftBoundary : SPECIAL_CODE_POINTS.asciiLeftBoundary]]
+      return [[node.unicode ? SPECIAL_CODE_POINTS.unicodeRightBoundary : SPECIAL_CODE_POINTS.asciiRightBoundary]]
+    case 'anchor':
+      return [[]]
+    case 'whiteSpace':
+      return [[SPECIAL_CODE_POINTS.whiteSpace]]
+    case 'anyCharacter':
+      return [[SPECIAL_CODE_POINTS.anyCharacter]]
+    case 'substitution':
+      return [[symbols.get(node.pattern)!]]
+    case 'fail':
+      return []
+  }
+}
+
+// every concatenation of a string from one set with one from another
+function product(prefixes: number[][], suffixes: number[][]): number[][] {
+  if (prefixes.length * suffixes.length > MAX_LANGUAGE_SIZE)
+    throw new ListMatcherError('TOO_MANY_STRINGS', 'the expression matches too many strings to verify')
+  const paths: number[][] = []
+  for (const p of prefixes) for (const s of suffixes) paths.push(p.concat(s))
+  return paths
+}
+
+// a unit of an alternative read by optimize: any one of a few code points, or an expression to keep as it is
+type PatternAtom = { source: string; codePoints?: number[] }
+
+// reads the alternatives of a pattern as sequences of atoms, refusing anything that would not be a list of phrases
+function readAlternation(source: string, unicode: boolean): PatternAtom[][] {
+  const refuse = (reason: string, offset: number): never => {
+    throw new ListMatcherError(
+      'UNREADABLE_EXPRESSION',
+      `cannot read /${source}/ as a list of phrases: ${reason} at offset ${offset}`,
+    )
+  }
+  const branches: PatternAtom[][] = [[]]
+  let i = 0
+  while (i < source.length) {
+    const start = i
+    const c = source.codePointAt(i)!
+    const ch = String.fromCodePoint(c)
+    const atoms = branches[branches.length - 1]
+    i += ch.length
+    switch (ch) {
+      case '|':
+        branches.push([])
+        break
+      case '(':
+      case ')':
+        return refuse('groups are not supported', start)
+      case '*':
+      case '+':
+        return refuse(`the quantifier ${ch} matches infinitely many strings`, start)
+      case '?':
+        return refuse('quantifiers are not supported', start)
+      case '^':
+      case '$':
+        return refuse('anchors are not supported', start)
+      case '.':
+        atoms.push({ source: ch })
+        break
+      case '[':
+        i = readClass(source, start, unicode, atoms, refuse)
+        break
+      case '\\': {
+        const [codePoint, end] = readEscape(source, start, unicode, false, refuse)
+        atoms.push({ source: source.slice(start, end), codePoints: codePoint === undefined ? undefined : [codePoint] })
+        i = end
+        break
+      }
+      case '{': {
+        const quantifier = /^\{\d+(,\d*)?\}/.exec(source.slice(start))
+        if (quantifier) {
+          if (/,\}$/.test(quantifier[0]))
+            refuse(`the quantifier ${quantifier[0]} matches infinitely many strings`, start)
+          refuse('quantifiers are not supported', start)
         }
+        atoms.push({ source: ch, codePoints: [c] })
+        break
       }
+      default:
+        atoms.push({ source: ch, codePoints: [c] })
     }
-    if (options.normalizeWhitespace) {
-      let w2 = w.trim().replace(/\s+/g, ' ')
-      if (w2.length === 0) continue
-      if (w2 !== w) {
-        if (seen.has(w2)) continue
-        seen.add(w2)
-        w = w2
+  }
+  return branches
+}
+
+// reads the character class at an offset in a pattern into an atom, returning the offset after it
+function readClass(
+  source: string,
+  offset: number,
+  unicode: boolean,
+  atoms: PatternAtom[],
+  refuse: (reason: string, offset: number) => never,
+): number {
+  let i = offset + 1
+  const negated = source[i] === '^'
+  if (negated) i++
+  // the members of the class, undefined for shorthands, with whether each is an unescaped hyphen
+  const members: [number | undefined, boolean][] = []
+  while (source[i] !== ']') {
+    if (i >= source.length) refuse('a character class is unterminated', offset)
+    if (source[i] === '\\') {
+      const [codePoint, end] = readEscape(source, i, unicode, true, refuse)
+      members.push([codePoint, false])
+      i = end
+    } else {
+      const c = source.codePointAt(i)!
+      members.push([c, c === 45])
+      i += String.fromCodePoint(c).length
+    }
+  }
+  i++
+  const codePoints = new Set<number>()
+  let finite = !negated
+  for (let j = 0; finite && j < members.length; j++) {
+    const [from] = members[j]
+    if (from === undefined) {
+      finite = false
+    } else if (j + 2 < members.length && members[j + 1][1] && members[j + 2][0] !== undefined) {
+      const to = members[j + 2][0]!
+      if (to - from >= MAX_CLASS_SIZE) finite = false
+      for (let c = from; finite && c <= to; c++) codePoints.add(c)
+      j += 2
+    } else {
+      codePoints.add(from)
+    }
+  }
+  const atom: PatternAtom = { source: source.slice(offset, i) }
+  if (finite && codePoints.size <= MAX_CLASS_SIZE) atom.codePoints = Array.from(codePoints)
+  atoms.push(atom)
+  return i
+}
+
+// reads the escape at an offset in a pattern, returning the code point it stands for, if it is a single character,
+// and the offset after it
+function readEscape(
+  source: string,
+  offset: number,
+  unicode: boolean,
+  inClass: boolean,
+  refuse: (reason: string, offset: number) => never,
+): [number | undefined, number] {
+  const c = source[offset + 1]
+  const rest = source.slice(offset + 2)
+  const controls: Record<string, number> = { t: 9, n: 10, v: 11, f: 12, r: 13 }
+  let m
+  if (c === undefined) refuse('the pattern ends in a backslash', offset)
+  if ('dDwWsS'.includes(c)) return [undefined, offset + 2]
+  if (c === 'b') return [inClass ? 8 : undefined, offset + 2]
+  if (c === 'B' && !inClass) return [undefined, offset + 2]
+  if (controls[c] !== undefined) return [controls[c], offset + 2]
+  if (c === '0' && !/^\d/.test(rest)) return [0, offset + 2]
+  if (/\d/.test(c)) refuse('backreferences and octal escapes are not supported', offset)
+  if (c === 'c' && (m = /^[A-Za-z]/.exec(rest))) return [m[0].charCodeAt(0) % 32, offset + 3]
+  if (c === 'x' && (m = /^[\da-fA-F]{2}/.exec(rest))) return [parseInt(m[0], 16), offset + 4]
+  if (c === 'u' && unicode && (m = /^\{([\da-fA-F]+)\}/.exec(rest)))
+    return [parseInt(m[1], 16), offset + 2 + m[0].length]
+  if (c === 'u' && (m = /^[\da-fA-F]{4}/.exec(rest))) return [parseInt(m[0], 16), offset + 6]
+  if (unicode && (c === 'p' || c === 'P') && (m = /^\{[^}]*\}/.exec(rest))) return [undefined, offset + 2 + m[0].length]
+  if (unicode && c === 'k') refuse('backreferences are not supported', offset)
+  // anything else stands for itself
+  const codePoint = source.codePointAt(offset + 1)!
+  return [codePoint, offset + 1 + String.fromCodePoint(codePoint).length]
+}
+
+// the syntax tree of an expression matching the words, and the options with which it was made
+function build(words: readonly string[], opts: ListMatcherOptions): [PatternNode, Opts] {
+  const list = [...words]
+  const options = adjustOptions(list, opts)
+  return [pattern(condense(encodePhrases(list, options), options), options), options]
+}
+
+// the root of the syntax tree of an expression
+function pattern(node: AstNode, options: Opts): PatternNode {
+  if (options.strict && node.type === 'fail') throw new ListMatcherError('EMPTY_LIST', 'there are no phrases to match')
+  if (options.capture) node = { type: 'capture', node }
+  if (options.anchor)
+    node = { type: 'sequence', nodes: [{ type: 'anchor', side: 'start' }, node, { type: 'anchor', side: 'end' }] }
+  return { type: 'pattern', node, flags: flags(options) }
+}
+
+// the phrases of a ListMatcher, normalized and encoded as adjustOptions and encodePhrases would, in a trie
+type PhraseIndex = {
+  options: Opts
+  trie: TrieNode
+  // the number of phrases normalizing to each word
+  sensitive: Map<string, number>
+  caseless: Map<string, number>
+  // case-sensitive words by their lowercase form, as a caseless word makes them redundant
+  variants: Map<string, Set<string>>
+  // the code points of each word in the trie, several with the fuzzy option
+  encoded: Map<string, number[][]>
+  // the number of words encoded as each phrase in the trie, as the variants of different words may coincide
+  paths: Map<string, number>
+  // whether the u flag was added because of the phrases
+  inferredUnicode: boolean
+}
+
+function phraseIndex(phrases: Set<string>, opts: ListMatcherOptions): PhraseIndex {
+  const words: string[] = []
+  phrases.forEach((p) => words.push(p))
+  const options = adjustOptions([...words], opts)
+  const index: PhraseIndex = {
+    options,
+    trie: trieNode(0),
+    sensitive: new Map(),
+    caseless: new Map(),
+    variants: new Map(),
+    encoded: new Map(),
+    paths: new Map(),
+    inferredUnicode: options.unicode && !unicodeRequested(opts),
+  }
+  for (const w of words) indexPhrase(index, w)
+  return index
+}
+
+// adds a phrase to the index, returning false if the index must be rebuilt instead
+function indexPhrase(index: PhraseIndex, phrase: string): boolean {
+  // the phrase would be mistaken for one containing substitutions
+  if (toCodePoints(phrase).some((c) => index.options.placeholders.has(c))) return false
+  return index.options.expand(phrase).every((e) => indexExpansion(index, e))
+}
+
+// adds one of the phrases a phrase expands to
+function indexExpansion(index: PhraseIndex, phrase: string): boolean {
+  const { options } = index
+  const unicode = options.unicode
+  const w = options.normalize(phrase)
+  // the u flag changes how boundaries are expressed
+  if (options.unicode !== unicode) return false
+  if (!w.length) return true
+  if (options.isCaseless(phrase)) {
+    if (count(index.caseless, w, 1) === 1) {
+      index.variants.get(w)?.forEach((v) => unindexWord(index, v))
+      indexWord(index, w, true)
+    }
+  } else if (count(index.sensitive, w, 1) === 1) {
+    const lower = foldCase(w, options.locale)
+    const variants = index.variants.get(lower) ?? new Set()
+    index.variants.set(lower, variants.add(w))
+    if (!index.caseless.has(lower)) indexWord(index, w, false)
+  }
+  return true
+}
+
+// removes a phrase from the index, returning false if the index must be rebuilt instead
+function unindexPhrase(index: PhraseIndex, phrase: string): boolean {
+  return index.options.expand(phrase).every((e) => unindexExpansion(index, e))
+}
+
+// removes one of the phrases a phrase expands to
+function unindexExpansion(index: PhraseIndex, phrase: string): boolean {
+  const { options } = index
+  const w = options.normalize(phrase)
+  // the u flag may no longer be needed
+  if (index.inferredUnicode && nonAscii(w, options.caseInsensitive || options.isCaseless(phrase), options)) return false
+  if (!w.length) return true
+  if (options.isCaseless(phrase)) {
+    if (count(index.caseless, w, -1) === 0) {
+      unindexWord(index, w)
+      index.variants.get(w)?.forEach((v) => indexWord(index, v, false))
+    }
+  } else if (count(index.sensitive, w, -1) === 0) {
+    const lower = foldCase(w, options.locale)
+    const variants = index.variants.get(lower)!
+    variants.delete(w)
+    if (!variants.size) index.variants.delete(lower)
+    if (!index.caseless.has(lower)) unindexWord(index, w)
+  }
+  return true
+}
+
+// changes the count of a key, returning the new count
+function count(counts: Map<string, number>, key: string, change: number): number {
+  const n = (counts.get(key) ?? 0) + change
+  if (n) {
+    counts.set(key, n)
+  } else {
+    counts.delete(key)
+  }
+  return n
+}
+
+function indexWord(index: PhraseIndex, w: string, caseless: boolean) {
+  const encoded = encodings(w, caseless, index.options)
+  index.encoded.set(w, encoded)
+  for (const p of encoded) if (count(index.paths, p.join(), 1) === 1) addToTrie(index.trie, p)
+}
+
+function unindexWord(index: PhraseIndex, w: string) {
+  for (const p of index.encoded.get(w)!) if (count(index.paths, p.join(), -1) === 0) removeFromTrie(index.trie, p)
+  index.encoded.delete(w)
+}
+
+// make the syntax tree of an expression matching all the phrases
+function condense(phrases: number[][], opts: Opts): AstNode {
+  const trie = trieNode(0)
+  for (const p of phrases) addToTrie(trie, p)
+  return condenseTrie(trie, opts)
+}
+
+// a trie of phrases encoded as code points
+// the syntax trees made from a subtree are kept, so when a phrase is added or removed only the nodes on its path
+// need be condensed again
+type TrieNode = {
+  depth: number
+  // the code point leading to this node from its parent
+  edge?: number
+  children: Map<number, TrieNode>
+  // the phrase ending here, if any
+  word?: number[]
+  // the one phrase in the subtree, ending below, while the nodes along the rest of it are yet to be made
+  tail?: number[]
+  // the number of phrases in the subtree
+  count: number
+  // a summary of the phrases in the subtree, made when needed
+  stats?: TrieStats
+  // the syntax tree last made of the subtree, with the number of code points trimmed from the end of each phrase
+  condensed?: [number, AstNode]
+}
+
+// a summary of a set of phrases
+type TrieStats = {
+  count: number
+  minLength: number
+  maxLength: number
+  // the length of the longest suffix shared by all the phrases
+  commonSuffix: number
+  // any one of the phrases
+  sample: number[]
+}
+
+// the children of every childless node, as most nodes are leaves, replaced when the first child is added
+const NO_CHILDREN: Map<number, TrieNode> = new Map()
+
+function trieNode(depth: number, edge?: number): TrieNode {
+  return { depth, edge, children: NO_CHILDREN, count: 0 }
+}
+
+function addChild(node: TrieNode, child: TrieNode) {
+  if (node.children === NO_CHILDREN) node.children = new Map()
+  node.children.set(child.edge!, child)
+}
+
+// the children of a node, making the next node along its tail, if it has one
+// as the phrases in the subtree are the same, so is its summary
+function expanded(node: TrieNode): Map<number, TrieNode> {
+  const { tail } = node
+  if (tail) {
+    node.tail = undefined
+    const child = trieNode(node.depth + 1, tail[node.depth])
+    child.count = 1
+    if (child.depth === tail.length) {
+      child.word = tail
+    } else {
+      child.tail = tail
+    }
+    if (node.stats) child.stats = phraseStats(tail)
+    addChild(node, child)
+  }
+  return node.children
+}
+
+// the summary of no phrases, whose lengths are those of the first merged into it
+function noStats(): TrieStats {
+  return { count: 0, minLength: 0, maxLength: 0, commonSuffix: 0, sample: [] }
+}
+
+function phraseStats(phrase: number[]): TrieStats {
+  const n = phrase.length
+  return { count: 1, minLength: n, maxLength: n, commonSuffix: n, sample: phrase }
+}
+
+// adds the summary of one set of phrases to that of another, disjoint set
+function mergeStats(stats: TrieStats, other: TrieStats) {
+  if (!other.count) return
+  if (stats.count) {
+    const a = stats.sample
+    const b = other.sample
+    let common = 0
+    const limit = Math.min(stats.commonSuffix, other.commonSuffix)
+    while (common < limit && a[a.length - common - 1] === b[b.length - common - 1]) common++
+    stats.commonSuffix = common
+    stats.minLength = Math.min(stats.minLength, other.minLength)
+    stats.maxLength = Math.max(stats.maxLength, other.maxLength)
+  } else {
+    stats.minLength = other.minLength
+    stats.maxLength = other.maxLength
+    stats.commonSuffix = other.commonSuffix
+    stats.sample = other.sample
+  }
+  stats.count += other.count
+}
+
+// adds a phrase to the trie, returning whether it was new
+// this takes time proportional to the length of the phrase; summaries are remade when the trie is next condensed
+// the nodes along a phrase are made only as far as it shares them with others, the rest being left as a tail
+function addToTrie(root: TrieNode, phrase: number[]): boolean {
+  const path = [root]
+  let node = root
+  let tail = false
+  while (!tail && node.depth < phrase.length) {
+    let child = expanded(node).get(phrase[node.depth])
+    if (!child) {
+      child = trieNode(node.depth + 1, phrase[node.depth])
+      addChild(node, child)
+      tail = child.depth < phrase.length
+      if (tail) child.tail = phrase
+    }
+    path.push(child)
+    node = child
+  }
+  if (!tail) {
+    // another phrase may be left as a tail running on past the end of this one
+    expanded(node)
+    if (node.word) return false
+    node.word = phrase
+  }
+  for (const node of path) {
+    node.count++
+    node.stats = undefined
+    node.condensed = undefined
+  }
+  return true
+}
+
+// removes a phrase from the trie, returning whether it was there
+function removeFromTrie(root: TrieNode, phrase: number[]): boolean {
+  const path = [root]
+  for (const c of phrase) {
+    const child = expanded(path[path.length - 1]).get(c)
+    if (!child) return false
+    path.push(child)
+  }
+  if (!path[path.length - 1].word) return false
+  path[path.length - 1].word = undefined
+  path.forEach((node, i) => {
+    node.count--
+    node.stats = undefined
+    node.condensed = undefined
+    if (i && !node.count) path[i - 1].children.delete(phrase[i - 1])
+  })
+  return true
+}
+
+// remake the summaries of the subtrees changed since they were last summarized
+// changed nodes lie on paths from the root, so no other nodes need be visited
+function summarize(root: TrieNode) {
+  const stack = [root]
+  while (stack.length) {
+    const node = stack[stack.length - 1]
+    if (node.stats) {
+      stack.pop()
+      continue
+    }
+    if (node.tail) {
+      stack.pop()
+      node.stats = phraseStats(node.tail)
+      continue
+    }
+    const pending = stack.length
+    node.children.forEach((child) => {
+      if (!child.stats) stack.push(child)
+    })
+    if (stack.length > pending) continue
+    stack.pop()
+    const stats = noStats()
+    if (node.word) mergeStats(stats, phraseStats(node.word))
+    node.children.forEach((child) => mergeStats(stats, child.stats!))
+    node.stats = stats
+  }
+}
+
+// the summary of the phrases in a summarized subtree longer than the given length
+function groupStats(root: TrieNode, length: number): TrieStats {
+  const stats = noStats()
+  const stack = [root]
+  while (stack.length) {
+    const node = stack.pop()!
+    const { minLength, maxLength } = node.stats!
+    if (minLength > length) {
+      mergeStats(stats, node.stats!)
+    } else if (maxLength > length) {
+      if (node.word && node.depth > length) mergeStats(stats, phraseStats(node.word))
+      node.children.forEach((child) => stack.push(child))
+    }
+  }
+  return stats
+}
+
+// the node reached by following the code points down from another
+function descend(node: TrieNode | undefined, codePoints: number[]): TrieNode | undefined {
+  for (const c of codePoints) node = node && expanded(node).get(c)
+  return node
+}
+
+// make the syntax tree of an expression matching all the phrases in a trie
+function condenseTrie(trie: TrieNode, opts: Opts): AstNode {
+  if (trie.count === 0) return { type: 'fail' }
+  if (opts.mergeSuffixes) return condenseDawg(trie, opts)
+  summarize(trie)
+  // subtrees are condensed after the subtrees they contain, using a stack rather than recursion, as phrases may be long
+  const stack: [TrieNode, number, Assembly?][] = [[trie, 0]]
+  while (stack.length) {
+    const frame = stack[stack.length - 1]
+    const [node, trim, assembly] = frame
+    if (condensed(node, trim)) {
+      stack.pop()
+    } else if (assembly) {
+      stack.pop()
+      node.condensed = [trim, assemble(assembly, opts)]
+      renderGroups(node.condensed[1], opts)
+    } else {
+      frame[2] = planAssembly(node, trim)
+      for (const [child, t] of frame[2].subtrees) if (!condensed(child, t)) stack.push([child, t])
+    }
+  }
+  return condensed(trie, 0)!
+}
+
+// renders the outermost groups of a new syntax tree, whose renderings are kept, so the rendering of the whole never
+// goes deeper than one subtree
+function renderGroups(node: AstNode, opts: Opts) {
+  const stack = [node]
+  while (stack.length) {
+    const n = stack.pop()!
+    if (GROUPS.has(n.type)) rendered(n, opts)
+    else if (n.type === 'sequence') stack.push(...n.nodes)
+    else if (n.type === 'repetition') stack.push(n.node)
+  }
+}
+
+function condensed(node: TrieNode, trim: number): AstNode | undefined {
+  if (node.condensed?.[0] === trim) return node.condensed[1]
+}
+
+// how the syntax tree of the phrases of a subtree is made from the code point leading to it, with trim code points
+// removed from the end of each
+// phrases ending before the subtree once trimmed belong to the tree of the parent
+type Assembly = {
+  prefix: number[]
+  // subtrees with the number of code points to trim from them
+  subtrees: [TrieNode, number][]
+  // the code points of phrases ending one code point into a subtree
+  chars: number[]
+  anyOptional: boolean
+  suffix: number[]
+}
+
+function planAssembly(root: TrieNode, trim: number): Assembly {
+  const min = root.depth + trim
+  const start = root.edge === undefined ? root.depth : root.depth - 1
+  // most subtrees hold a single phrase, which is all prefix
+  const { count, minLength, commonSuffix, sample } = root.stats!.count === 1 ? root.stats! : groupStats(root, min)
+  if (count === 1)
+    return {
+      prefix: sample.slice(start, sample.length - trim),
+      subtrees: [],
+      chars: [],
+      anyOptional: false,
+      suffix: [],
+    }
+  // every phrase ends with the same trimmed code points, so this is where the phrase ending at a node would be found
+  const ends = (node: TrieNode, length: number) => !!descend(node, sample.slice(sample.length - length))?.word
+  // extract the common prefix
+  const prefix = root.edge === undefined ? [] : [root.edge]
+  let node = root
+  while (node === root || !ends(node, trim)) {
+    let only: [number, TrieNode] | undefined
+    let n = 0
+    expanded(node).forEach((child, c) => {
+      if (child.stats!.maxLength > min && n++ === 0) only = [c, child]
+    })
+    if (n !== 1) break
+    prefix.push(only![0])
+    node = only![1]
+  }
+  // extract the common suffix
+  const end = sample.length - trim
+  const suffix = sample.slice(end - (Math.min(commonSuffix, minLength - node.depth) - trim), end)
+  const trimmed = trim + suffix.length
+  // separate single characters and sequences
+  const chars: number[] = []
+  const subtrees: [TrieNode, number][] = []
+  expanded(node).forEach((child, c) => {
+    if (ends(child, trimmed)) chars.push(c)
+    if (child.stats!.maxLength > child.depth + trimmed) subtrees.push([child, trimmed])
+  })
+  return { prefix, subtrees, chars, anyOptional: node.depth + trimmed > min && ends(node, trimmed), suffix }
+}
+
+// make a syntax tree once the trees of the subtrees it includes are made
+function assemble({ prefix, subtrees, chars, anyOptional, suffix }: Assembly, opts: Opts): AstNode {
+  // if this was everything, just return the prefix
+  if (!subtrees.length && !chars.length) return sequence(reduceDuplicates(prefix, opts))
+  let middle: AstNode
+  if (subtrees.length) {
+    const alternatives = branchAlternatives(
+      subtrees.map(([node, trim]) => condensed(node, trim)!),
+      chars,
+      opts,
+    )
+    middle = alternation(alternatives)
+  } else {
+    // if we've gotten here we necessarily have some chars
+    const alternatives = branchAlternatives([], chars, opts)
+    middle =
+      alternatives.length === 1 && (alternatives[0].type === 'literal' || alternatives[0].type === 'charClass')
+        ? alternatives[0]
+        : { type: 'alternation', alternatives }
+  }
+  return sequence([
+    ...reduceDuplicates(prefix, opts),
+    anyOptional ? optionalNode(middle) : middle,
+    ...reduceDuplicates(suffix, opts),
+  ])
+}
+
+// a minimal acyclic automaton recognizing the phrases, in which equivalent suffix subtrees are merged
+// states are numbered such that every state's successors precede it
+type Dawg = {
+  states: DawgState[]
+  registry: Map<string, number>
+  // the immediate post-dominator of each state -- the nearest state every path from it to a final state passes through
+  joins: number[]
+  depths: number[]
+  alternations: Map<number, AstNode>
+}
+
+type DawgState = {
+  final: boolean
+  edges: [number, number][]
+}
+
+// a virtual state following every final state
+const DAWG_END = -1
+
+// make a syntax tree from the trie by way of a minimal automaton
+function condenseDawg(trie: TrieNode, opts: Opts): AstNode {
+  const dawg: Dawg = { states: [], registry: new Map(), joins: [], depths: [], alternations: new Map() }
+  const root = addDawgStates(trie, dawg)
+  dawg.states.forEach(({ final, edges }, i) => {
+    let join: number | undefined = final ? DAWG_END : undefined
+    for (const [, child] of edges) join = join === undefined ? child : nearestJoin(join, child, dawg)
+    dawg.joins[i] = join!
+    dawg.depths[i] = dawgDepth(join!, dawg) + 1
+  })
+  // as a state's successors precede it, the alternations within a state's alternation are made and rendered before it
+  dawg.states.forEach(({ edges }, i) => {
+    if (!edges.length || inRun(i, dawg)) return
+    const made = dawgAlternation(i, dawg, opts)
+    dawg.alternations.set(i, made)
+    renderGroups(made, opts)
+  })
+  return sequence(dawgPath(root, DAWG_END, dawg, opts))
+}
+
+// whether a state is just a character on the way to its join
+function inRun(state: number, dawg: Dawg): boolean {
+  const { final, edges } = dawg.states[state]
+  return !final && edges.length === 1 && edges[0][1] === dawg.joins[state]
+}
+
+// add the states recognizing the remainders of the phrases in each subtree, reusing equivalent states where there are
+// any, and return the state of the whole trie
+function addDawgStates(trie: TrieNode, dawg: Dawg): number {
+  const states = new Map<TrieNode, number>()
+  // a subtree's states are added after those of the subtrees it contains
+  const stack = [trie]
+  while (stack.length) {
+    const node = stack[stack.length - 1]
+    const pending = stack.length
+    expanded(node).forEach((child) => {
+      if (!states.has(child)) stack.push(child)
+    })
+    if (stack.length > pending) continue
+    stack.pop()
+    const final = !!node.word
+    const edges: [number, number][] = []
+    node.children.forEach((child, c) => edges.push([c, states.get(child)!]))
+    edges.sort(([a], [b]) => a - b)
+    const key = `${final}:${edges.join(';')}`
+    let state = dawg.registry.get(key)
+    if (state === undefined) {
+      state = dawg.states.length
+      dawg.states.push({ final, edges })
+      dawg.registry.set(key, state)
+    }
+    states.set(node, state)
+  }
+  return states.get(trie)!
+}
+
+function dawgDepth(state: number, dawg: Dawg): number {
+  return state === DAWG_END ? 0 : dawg.depths[state]
+}
+
+// the first state through which all paths from either state pass
+function nearestJoin(a: number, b: number, dawg: Dawg): number {
+  while (a !== b) {
+    const da = dawgDepth(a, dawg)
+    const db = dawgDepth(b, dawg)
+    if (da >= db) a = dawg.joins[a]
+    if (db >= da) b = dawg.joins[b]
+  }
+  return a
+}
+
+// the nodes matching every path from one state to another through which all its paths pass
+function dawgPath(state: number, target: number, dawg: Dawg, opts: Opts): AstNode[] {
+  const nodes: AstNode[] = []
+  // runs of single characters are collected so repetitions can be found
+  let run: number[] = []
+  while (state !== target) {
+    if (inRun(state, dawg)) {
+      run.push(dawg.states[state].edges[0][0])
+    } else if (dawg.states[state].edges.length) {
+      nodes.push(...reduceDuplicates(run, opts))
+      run = []
+      nodes.push(dawg.alternations.get(state)!)
+    }
+    state = dawg.joins[state]
+  }
+  nodes.push(...reduceDuplicates(run, opts))
+  return nodes
+}
+
+// the node matching every path from a state to its join
+function dawgAlternation(state: number, dawg: Dawg, opts: Opts): AstNode {
+  const { final, edges } = dawg.states[state]
+  const join = dawg.joins[state]
+  // each branch begins with the characters leading to a particular state
+  const branches: { lead: number[]; nodes: AstNode[] }[] = []
+  const byChild = new Map<number, number[]>()
+  for (const [c, child] of edges) {
+    const lead = byChild.get(child)
+    if (lead) {
+      lead.push(c)
+    } else {
+      byChild.set(child, [c])
+    }
+  }
+  byChild.forEach((lead, child) => {
+    const alternatives = charSet([...lead], opts)
+    branches.push({
+      lead,
+      nodes: [
+        alternatives.length === 1 ? alternatives[0] : { type: 'alternation', alternatives },
+        ...dawgPath(child, join, dawg, opts),
+      ],
+    })
+  })
+  // paths may still converge short of the join -- (?:ed|ing|s)?\b rather than (?:ed\b|ing\b|s\b|\b)
+  const suffix: AstNode[] = []
+  while (!final && branches.length > 1 && branches.every(({ nodes }) => nodes.length)) {
+    const last = branches[0].nodes[branches[0].nodes.length - 1]
+    if (branches.some(({ nodes }) => !sameNode(nodes[nodes.length - 1], last))) break
+    suffix.unshift(branches[0].nodes[branches[0].nodes.length - 1])
+    for (const { nodes } of branches) nodes.pop()
+  }
+  const optional = final || branches.some(({ nodes }) => !nodes.length)
+  // as in assemble, sequences are tried before single characters
+  const chars: number[] = []
+  const parts: AstNode[] = []
+  for (const { lead, nodes } of branches) {
+    if (nodes.length === 1) {
+      chars.push(...lead)
+    } else if (nodes.length) {
+      parts.push(sequence(nodes))
+    }
+  }
+  let middle: AstNode
+  if (parts.length) {
+    const alternatives = branchAlternatives(parts, chars, opts)
+    middle = alternatives.length === 1 ? alternatives[0] : alternation(alternatives)
+  } else {
+    const alternatives = branchAlternatives([], chars, opts)
+    middle =
+      alternatives.length === 1 && (alternatives[0].type === 'literal' || alternatives[0].type === 'charClass')
+        ? alternatives[0]
+        : { type: 'alternation', alternatives }
+  }
+  return sequence([optional ? optionalNode(middle) : middle, ...suffix])
+}
+
+// a node that may be skipped, unless it or its only alternative already may be -- (?:(?:-|\s+)?)? is (?:-|\s+)?
+function optionalNode(node: AstNode): AstNode {
+  const inner = node.type === 'alternation' && node.alternatives.length === 1 ? node.alternatives[0] : node
+  return inner.type === 'optional' ? inner : { type: 'optional', node }
+}
+
+// a sequence of nodes, with nested sequences flattened
+// neighbors repeating the same unit are merged -- \d{3}(?:\d)? becomes \d{3,4}
+function sequence(nodes: AstNode[]): AstNode {
+  const flattened = nodes.some((n) => n.type === 'sequence')
+    ? nodes.flatMap((n) => (n.type === 'sequence' ? n.nodes : [n]))
+    : nodes
+  // made at full length, as the tree is kept with the trie
+  const merged = new Array<AstNode>(flattened.length)
+  let length = 0
+  // the unit the last node repeats, and how often
+  let previous: AstNode | undefined
+  let least = 0
+  let most = 0
+  for (const n of flattened) {
+    // most nodes are characters, which repeat only themselves
+    if (n.type === 'literal') {
+      if (previous?.type === 'literal' && previous.codePoint === n.codePoint) {
+        merged[length - 1] = { type: 'repetition', node: previous, min: ++least, max: ++most }
+      } else {
+        previous = n
+        least = most = 1
+        merged[length++] = n
       }
+      continue
+    }
+    const [unit, min, max] = repetitionView(n)
+    if (previous && sameNode(previous, unit)) {
+      least += min
+      most += max
+      merged[length - 1] = { type: 'repetition', node: previous, min: least, max: most }
+    } else {
+      previous = unit
+      least = min
+      most = max
+      merged[length++] = n
+    }
+  }
+  if (length < merged.length) merged.length = length
+  return length === 1 ? merged[0] : { type: 'sequence', nodes: merged }
+}
+
+// an alternation, with alternatives differing only in how often they repeat a unit merged
+// (?:\d{3}|\d) becomes \d{1,3}
+function alternation(alternatives: AstNode[]): AstNode {
+  const merged: AstNode[] = []
+  // alternatives by the unit they repeat, sought only where something repeats
+  const ranges: [AstNode, number[]][] = []
+  const units = alternatives.map((n) => repetitionView(n)[0])
+  if (units.some((unit, i) => unit !== alternatives[i])) {
+    units.forEach((unit, i) => {
+      const range = ranges.find(([u]) => sameNode(u, unit))
+      if (range) {
+        range[1].push(i)
+      } else {
+        ranges.push([unit, [i]])
+      }
+    })
+  }
+  ranges.forEach(([unit, members]) => {
+    if (members.length === 1) return
+    // the counts must form an unbroken range
+    const counts = members.map((i) => repetitionView(alternatives[i]).slice(1) as [number, number])
+    counts.sort(([a], [b]) => a - b)
+    let [min, max] = counts[0]
+    for (const [a, b] of counts.slice(1)) {
+      if (a > max + 1) {
+        min = -1
+        break
+      }
+      max = Math.max(max, b)
+    }
+    if (min < 0) return
+    members.forEach((i, j) => {
+      merged[i] = j ? { type: 'fail' } : { type: 'repetition', node: unit, min, max }
+    })
+  })
+  const remaining = alternatives.map((n, i) => merged[i] ?? n).filter((n) => n.type !== 'fail')
+  if (remaining.length < alternatives.length && remaining.length === 1) return remaining[0]
+  return { type: 'alternation', alternatives: remaining }
+}
+
+// a node as some unit repeated between a minimum and maximum number of times
+function repetitionView(node: AstNode): [AstNode, number, number] {
+  switch (node.type) {
+    case 'repetition':
+      return [node.node, node.min, node.max]
+    case 'optional': {
+      // (?:a{2})? is not a{0,2}
+      const [unit, min, max] = repetitionView(node.node)
+      if (min <= 1) return [unit, 0, max]
+      break
     }
-    if (options.caseInsensitive) {
-      let w2 = w.toLowerCase()
-      if (w2 !== w) {
-        if (seen.has(w2)) continue
-        seen.add(w2)
-        w = w2
-      }
+    case 'alternation':
+      if (node.alternatives.length === 1) return repetitionView(node.alternatives[0])
+  }
+  return [node, 1, 1]
+}
+
+// whether two nodes are the same expression, compared part by part
+function sameNode(a: AstNode, b: AstNode): boolean {
+  if (a === b) return true
+  if (a.type !== b.type) return false
+  switch (a.type) {
+    case 'literal':
+      return a.codePoint === (b as LiteralNode).codePoint
+    case 'charClass':
+      return sameNumbers(a.codePoints, (b as CharClassNode).codePoints)
+    case 'anyCharacter':
+      return sameNumbers(a.except ?? [], (b as AnyCharacterNode).except ?? [])
+    case 'sequence':
+      return sameNodes(a.nodes, (b as SequenceNode).nodes)
+    case 'alternation':
+      return sameNodes(a.alternatives, (b as AlternationNode).alternatives)
+    case 'optional':
+      return sameNode(a.node, (b as OptionalNode).node)
+    case 'repetition': {
+      const r = b as RepetitionNode
+      return a.min === r.min && a.max === r.max && sameNode(a.node, r.node)
     }
-    newWords.push(w)
+    case 'capture':
+      return a.name === (b as CaptureNode).name && sameNode(a.node, (b as CaptureNode).node)
+    case 'boundary': {
+      const o = b as BoundaryNode
+      return a.side === o.side && a.unicode === o.unicode && a.marks === o.marks && a.wordCharacter === o.wordCharacter
+    }
+    case 'substitution':
+      return a.pattern === (b as SubstitutionNode).pattern
+    case 'anchor':
+      return a.side === (b as AnchorNode).side
   }
-  // so the same set of words, however ordered, always produces the same regex for a given set of options
-  newWords.sort()
-  words.length = 0
-  words.unshift(...newWords)
-  return options
+  return true
 }
 
-function condense(slices: Slice[], opts: Opts): string {
-  if (slices.length === 0) return '(?!)'
-  const [slcs1, prefix] = extractPrefix(slices, opts)
-  // if this was everything, just return the prefix
-  if (slcs1.length === 1 && sliceLength(slcs1[0]) === 0) return prefix
-  const [slcs2, suffix] = extractSuffix(slcs1, opts)
-  const slcs3 = slcs2.filter((sl) => sliceLength(sl))
-  const anyOptional = slcs3.length < slices.length ? '?' : ''
-  // separate single characters and sequences
-  const chars: Slice[] = []
-  const sequences: Slice[] = []
-  for (const sl of slcs3) {
-    ;(sliceLength(sl) === 1 ? chars : sequences).push(sl)
-  }
-  let middle
-  if (sequences.length) {
-    const parts = groupByFirst(sequences).map((slcs) => condense(slcs, opts))
-    parts.sort()
-    if (chars.length)
-      parts.push(
-        charClass(
-          chars.map((sl) => firstChar(sl)!),
-          true,
-          opts,
-        ),
-      )
-    middle = `(?:${parts.join('|')})`
-  } else {
-    // if we've gotten here we necessarily have some chars
-    middle = charClass(
-      chars.map((sl) => firstChar(sl)!),
-      false,
-      opts,
-    )
+function sameNodes(a: AstNode[], b: AstNode[]): boolean {
+  return a.length === b.length && a.every((n, i) => sameNode(n, b[i]))
+}
+
+function sameNumbers(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((n, i) => n === b[i])
+}
+
+// the alternatives of a branch, sequences before single characters
+// with the fuzzy option those beginning with a wildcard go last, so where the text is a phrase it is matched as one
+function branchAlternatives(sequences: AstNode[], chars: number[], opts: Opts): AstNode[] {
+  const alternatives = sortAlternatives(sequences, opts)
+  if (chars.length) alternatives.push(...charSet(chars, opts))
+  if (!opts.maxEdits) return alternatives
+  return alternatives.filter((n) => !wildcardFirst(n)).concat(alternatives.filter(wildcardFirst))
+}
+
+// whether a node begins with a wildcard
+function wildcardFirst(node: AstNode): boolean {
+  switch (node.type) {
+    case 'anyCharacter':
+      return true
+    case 'sequence':
+      return wildcardFirst(node.nodes[0])
+    case 'repetition':
+      return wildcardFirst(node.node)
+    case 'alternation':
+      return node.alternatives.every(wildcardFirst)
+  }
+  return false
+}
+
+// so the same set of words always produces the same expression, alternatives are sorted by their rendering
+// renderings mostly differ in their first node, so the rest is only rendered where these do not decide the order
+function sortAlternatives(nodes: AstNode[], opts: Opts): AstNode[] {
+  const keyed = nodes.map((n): [string, AstNode] => [rendered(n.type === 'sequence' ? n.nodes[0] : n, opts), n])
+  keyed.sort(([a, m], [b, n]) => {
+    if (!a.startsWith(b) && !b.startsWith(a)) return a < b ? -1 : 1
+    a = rendered(m, opts)
+    b = rendered(n, opts)
+    return a < b ? -1 : a > b ? 1 : 0
+  })
+  return keyed.map(([, n]) => n)
+}
+
+// render a node as it will appear in the pattern being parsed
+function rendered(node: AstNode, opts: Opts): string {
+  const f = flags(opts)
+  if (opts.context?.flags !== f) opts.context = renderContext(f, opts.renderer, opts.renderings)
+  return opts.context.render(node)
+}
+
+// render a pattern made with the given options, reusing the renderings made while making it
+function renderPattern(ast: PatternNode, options: Opts): string {
+  return options.renderer.pattern(ast, renderContext(ast.flags, options.renderer, options.renderings))
+}
+
+function renderContext(flags: string, backend: Renderer, cache?: WeakMap<AstNode, string>): RenderContext {
+  const context: RenderContext = {
+    flags,
+    render: (node) => {
+      // nodes are never modified once made, so the renderings of groups are kept
+      const cacheable = cache && GROUPS.has(node.type)
+      let rx = cacheable ? cache.get(node) : undefined
+      if (rx === undefined) {
+        rx = (backend[node.type] as (node: AstNode, context: RenderContext) => string)(node, context)
+        if (cacheable) cache.set(node, rx)
+      }
+      return rx
+    },
   }
-  return `${prefix}${middle}${anyOptional}${suffix}`
-}
-
-// groups slices by first character
-function groupByFirst(slices: Slice[]): Slice[][] {
-  const groups: Record<string, Slice[]> = {}
-  for (const sl of slices) {
-    const ar = (groups[firstChar(sl)!] ??= [])
-    ar.push(sl)
-  }
-  return Object.values(groups)
-}
-
-// extracts common prefix of all slices, if any
-function extractPrefix(slices: Slice[], options: Opts): [Slice[], string] {
-  if (slices.length === 1) {
-    const sl = slices[0]
-    const prefix = sl.codePoints.slice(sl.start, sl.end)
-    sl.start = sl.end
-    return [[sl], reduceDuplicates(prefix, options)]
-  }
-  let c = firstChar(slices[0])
-  const prefix = []
-  outer: while (c) {
-    for (const sl of slices) {
-      if (sliceLength(sl) === 0) break outer
-      if (firstChar(sl) !== c) break outer
-    }
-    for (const sl of slices) sl.start++
-    prefix.push(c)
-    c = firstChar(slices[0])
-  }
-  return [slices, reduceDuplicates(prefix, options)]
-}
-
-// extracts common suffix of all slices, if any
-function extractSuffix(slices: Slice[], options: Opts): [Slice[], string] {
-  if (slices.length === 1) {
-    const sl = slices[0]
-    const suffix = sl.codePoints.slice(sl.start, sl.end)
-    sl.start = sl.end
-    return [[sl], reduceDuplicates(suffix, options)]
-  }
-  let c = lastChar(slices[0])
-  const suffix = []
-  outer: while (c) {
-    for (const sl of slices) {
-      if (sliceLength(sl) === 0) break outer
-      if (lastChar(sl) !== c) break outer
-    }
-    for (const sl of slices) sl.end--
-    suffix.push(c)
-    c = lastChar(slices[0])
-  }
-  return [slices, reduceDuplicates(suffix.reverse(), options)]
-}
-
-// look for repeating characters and maybe use a repetition count -- a{5}, e.g.
-function reduceDuplicates(sequence: number[], options: Opts): string {
-  if (sequence.length === 0) return ''
-  let dupCount = 1
-  let unit = sequence[0]
-  let reduced = ''
-  for (let i = 1; i < sequence.length; i++) {
-    const p = sequence[i]
-    if (p === unit) {
-      dupCount += 1
+  return context
+}
+
+// look for repeating units and mark them as repetitions -- a{5} or (?:ab){3}, e.g.
+// if units is false, only repetitions of single characters are sought
+function reduceDuplicates(codePoints: number[], options: Opts, units = true): AstNode[] {
+  const reduced: AstNode[] = []
+  let i = 0
+  while (i < codePoints.length) {
+    // find the unit repeated over the longest stretch, preferring shorter units
+    let width = 1
+    let count = 1
+    for (let w = 1; i + 2 * w <= codePoints.length && (units || w === 1); w++) {
+      let n = 1
+      while (i + (n + 1) * w <= codePoints.length && repeats(codePoints, i + n * w, w)) n++
+      if (n > 1 && n * w > width * count) {
+        width = w
+        count = n
+      }
+    }
+    const end = i + width * count
+    if (width === 1) {
+      const node = toNode(codePoints[i], options)
+      reduced.push(count === 1 ? node : { type: 'repetition', node, min: count, max: count })
     } else {
-      reduced += maybeReduce(dupCount, toAtom(unit, false, options))
-      unit = p
-      dupCount = 1
+      const node = sequence(reduceDuplicates(codePoints.slice(i, i + width), options))
+      const folded: AstNode = { type: 'repetition', node, min: count, max: count }
+      // folding may hide shorter repetitions spanning the units -- \d\d \d{4} \d\d rather than (?:\d\d \d\d){2}
+      const unfolded = reduceDuplicates(codePoints.slice(i, end), options, false)
+      if (rendered(folded, options).length < rendered(sequence(unfolded), options).length) {
+        reduced.push(folded)
+      } else {
+        reduced.push(...unfolded)
+      }
     }
+    i = end
   }
-  reduced += maybeReduce(dupCount, toAtom(unit, false, options))
   return reduced
 }
 
-// converts aaaaa into a{5}, etc.
-// cannot return a pattern longer than the input sequence
-function maybeReduce(dc: number, unit: string): string {
-  return dc === 1 ? unit : dc * unit.length > unit.length + 3 ? `${unit}{${dc}}` : unit.repeat(dc)
+// whether the w code points at offset repeat the w code points before them
+function repeats(codePoints: number[], offset: number, w: number): boolean {
+  for (let j = offset; j < offset + w; j++) if (codePoints[j] !== codePoints[j - w]) return false
+  return true
 }
 
-function firstChar(slice: Slice): number | undefined {
-  return sliceLength(slice) > 0 ? slice.codePoints[slice.start] : undefined
+// render a node so that a quantifier following it applies to all of it
+function quantifiable(node: AstNode, rx: string, syntax: Syntax): string {
+  switch (node.type) {
+    case 'literal':
+    case 'charClass':
+    case 'anyCharacter':
+    case 'alternation':
+    case 'capture':
+      return rx
+    case 'substitution':
+      if (isAtom(rx)) return rx
+  }
+  return `${syntax.group}${rx})`
 }
 
-function lastChar(slice: Slice): number | undefined {
-  return sliceLength(slice) > 0 ? slice.codePoints[slice.end - 1] : undefined
+// whether an expression is a single character, escape, or character class
+function isAtom(rx: string): boolean {
+  return /^(?:[^\\]|\\[pP]\{[^}]*\}|\\x[\da-fA-F]{2}|\\u[\da-fA-F]{4}|\\.|\[\^?\]?(?:\\.|[^\\\]])*\])$/su.test(rx)
 }
 
-function sliceLength(slice: Slice) {
-  return slice.end - slice.start
+// converts aaaaa into a{5}, aaa? into a{2,3}, etc.
+// rx is the expression repeated and unit the same expression made quantifiable
+// cannot return a pattern longer than the repetitions spelled out
+function maybeReduce(min: number, max: number, rx: string, unit: string): string {
+  const counted = `${unit}{${min === max ? min : `${min},${max}`}}`
+  if (max - min > 1) return counted
+  const spelled = rx.repeat(min) + (max > min ? `${unit}?` : '')
+  return spelled.length > counted.length ? counted : spelled
 }
 
 function prepareSubstitutions(opts: ListMatcherOptions, options: Opts, words: string[]): (w: string) => string {
   if (!opts.substitutions) return (w) => w
   const count = Object.keys(opts.substitutions).length
   if (count) {
-    const unused = getUnusedCharacters(count, words)
+    const unused = getUnusedCharacters(count, words, opts.locale ?? '')
+    // to accelerate other code, we store subtitution codepoints as negative numbers
     const substitutions: Record<number, string> = {}
     const replacementHash: Record<string, string> = {}
+    checkSubstitutionKeys(Object.keys(opts.substitutions))
     for (const [from, to] of Object.entries(opts.substitutions)) {
       const [cp, char] = unused.shift()!
       replacementHash[from] = char
-      substitutions[cp] = to
+      const spec: Substitution | null | undefined = typeof to === 'string' ? { pattern: to } : to
+      // a missing value is not a pattern either
+      if (typeof spec?.pattern !== 'string')
+        throw new ListMatcherError('INVALID_SUBSTITUTION', `the substitution for ${from} is not a pattern`)
+      substitutions[-cp] = checkSubstitution(from, spec.pattern, opts)
+      options.wordEdges[-cp] = [!!spec.wordLeft, !!spec.wordRight]
+      options.placeholders.add(cp)
     }
     options.subtitutions = substitutions
     const rx = regex(Object.keys(opts.substitutions), { flags: 'g' })
@@ -323,95 +2708,1017 @@ function prepareSubstitutions(opts: ListMatcherOptions, options: Opts, words: st
   }
 }
 
+// keys are replaced greedily, so one may contain another, but where the end of one key is the start of another
+// which is replaced would depend on where they occur
+function checkSubstitutionKeys(keys: string[]): void {
+  for (const a of keys) {
+    if (!a.length) throw new ListMatcherError('INVALID_SUBSTITUTION', 'a substitution key cannot be empty')
+    for (const b of keys) {
+      if (a === b || a.includes(b) || b.includes(a)) continue
+      for (let i = 1; i < a.length; i++) {
+        if (b.startsWith(a.slice(i)))
+          throw new ListMatcherError('INVALID_SUBSTITUTION', `the substitution keys ${a} and ${b} overlap ambiguously`)
+      }
+    }
+  }
+}
+
+// the pattern of a substitution, grouped if it is an alternation, provided it can stand alone within an expression
+function checkSubstitution(key: string, pattern: string, opts: ListMatcherOptions): string {
+  const syntax = SYNTAXES[opts.dialect ?? 'javascript']
+  const { balanced, captures, backreferences, alternation } = scanGroups(pattern)
+  if (!balanced)
+    throw new ListMatcherError(
+      'INVALID_SUBSTITUTION',
+      `the substitution for ${key} has unbalanced parentheses: ${pattern}`,
+    )
+  if ((opts.dialect ?? 'javascript') === 'javascript') {
+    try {
+      new RegExp(pattern, (opts.flags || '').replace(/[^imsu]/g, ''))
+    } catch (e) {
+      throw new ListMatcherError(
+        'INVALID_SUBSTITUTION',
+        `the substitution for ${key} is not a valid pattern: ${pattern}`,
+      )
+    }
+  }
+  // where every group captures, as in POSIX, numbering groups is hopeless anyway
+  if (captures && syntax.group !== '(')
+    throw new ListMatcherError(
+      'INVALID_SUBSTITUTION',
+      `the substitution for ${key} has capture groups, which would renumber those of the expression`,
+    )
+  // but a backreference would refer to the groups of the expression in any dialect
+  if (backreferences)
+    throw new ListMatcherError(
+      'INVALID_SUBSTITUTION',
+      `the substitution for ${key} has backreferences, which would refer to the groups of the expression`,
+    )
+  return alternation ? `${syntax.group}${pattern})` : pattern
+}
+
+// whether the parentheses in a pattern are balanced, how many of its groups capture, whether it refers back to any,
+// and whether it is an alternation
+function scanGroups(pattern: string): {
+  balanced: boolean
+  captures: number
+  backreferences: boolean
+  alternation: boolean
+} {
+  let depth = 0
+  let captures = 0
+  let backreferences = false
+  let alternation = false
+  let inClass = false
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '\\') {
+      // \1, \k<name>, \k'name', \k{name}, \g1, \g{name}, and the like
+      if (!inClass && /^\\(?:[1-9]|k[<'{]|g[-{\d])/.test(pattern.slice(i, i + 3))) backreferences = true
+      i++
+    } else if (inClass) {
+      if (c === ']') inClass = false
+    } else if (c === '[') {
+      inClass = true
+    } else if (c === '(') {
+      depth++
+      // (?<name>...), (?P<name>...), and (?'name'...) capture, but lookbehinds do not
+      if (pattern[i + 1] !== '?' || /^\(\?(?:P?<(?![=!])|')/.test(pattern.slice(i, i + 4))) captures++
+      // (?P=name) refers back
+      if (pattern.startsWith('(?P=', i)) backreferences = true
+    } else if (c === ')') {
+      if (--depth < 0) return { balanced: false, captures, backreferences, alternation }
+    } else if (c === '|' && !depth) {
+      alternation = true
+    }
+  }
+  return { balanced: !depth, captures, backreferences, alternation }
+}
+
+// indexes the sets of the equivalences option, returning a function that replaces each interchangeable character in a
+// phrase with the first of its set, the folded sets being used where case is folded
+function prepareEquivalences(opts: ListMatcherOptions, options: Opts): (w: string, folded: boolean) => string {
+  if (!opts.equivalences?.length) return (w) => w
+  const sets: Equivalent[] = []
+  for (const e of opts.equivalences) {
+    const spec = typeof e === 'string' ? { characters: e } : e
+    if (typeof spec?.characters !== 'string' || !spec.characters.length)
+      throw new ListMatcherError('INVALID_OPTION', 'an equivalence must have a string of characters')
+    const set = {
+      members: Array.from(new Set(toCodePoints(spec.characters))),
+      optional: !!spec.optional,
+      whiteSpace: !!spec.whiteSpace,
+    }
+    for (const c of set.members) {
+      if (options.equivalences.has(c))
+        throw new ListMatcherError(
+          'INVALID_OPTION',
+          `the character ${String.fromCodePoint(c)} is in more than one equivalence`,
+        )
+      options.equivalences.set(c, set)
+    }
+    sets.push(set)
+  }
+  // phrases are folded before their characters are compared, so the sets must be too
+  if (options.caseInsensitive || opts.ignoreCase) {
+    for (const set of sets) {
+      const members: number[] = []
+      for (const c of set.members) {
+        const f = toCodePoints(foldCase(String.fromCodePoint(c), options.locale))
+        // a character folding to several, such as ß, is no longer there to be replaced
+        if (f.length === 1 && !members.includes(f[0])) members.push(f[0])
+      }
+      const folded = { ...set, members }
+      for (const c of members) {
+        if (options.foldedEquivalences.has(c))
+          throw new ListMatcherError(
+            'INVALID_OPTION',
+            `the character ${String.fromCodePoint(c)} is in more than one equivalence once case is folded`,
+          )
+        options.foldedEquivalences.set(c, folded)
+      }
+    }
+  }
+  return (w, folded) => {
+    const equivalences = folded ? options.foldedEquivalences : options.equivalences
+    let equated = ''
+    for (const c of toCodePoints(w)) equated += String.fromCodePoint(equivalences.get(c)?.members[0] ?? c)
+    return equated
+  }
+}
+
+// whether a normalized phrase consists only of interchangeable characters that may be left out
+function onlyOptional(w: string, folded: boolean, options: Opts): boolean {
+  const equivalences = folded ? options.foldedEquivalences : options.equivalences
+  if (!equivalences.size) return !w.length
+  return toCodePoints(w).every((c) => !!equivalences.get(c)?.optional)
+}
+
+// whether a normalized phrase has characters beyond ASCII, which call for the u flag
+// placeholders do not count, but an interchangeable character counts as all the characters of its set
+function nonAscii(w: string, folded: boolean, options: Opts): boolean {
+  const equivalences = folded ? options.foldedEquivalences : options.equivalences
+  if (!equivalences.size && /^[\0-\x7f]*$/.test(w)) return false
+  return toCodePoints(w).some(
+    (c) => !options.placeholders.has(c) && (equivalences.get(c)?.members ?? [c]).some((m) => m > 127),
+  )
+}
+
+// the parts of a phrase written with the glob option once its braces are expanded
+type GlobPart = { text: string } | { set: number[] } | { any: true }
+
+// expands the braces of a phrase written with the glob option, so col{o,ou}r becomes color and colour
+// escapes are kept for parseGlob, and braces within sets are left alone
+function expandBraces(phrase: string): string[] {
+  const invalid = (problem: string) => new ListMatcherError('INVALID_PHRASE', `the phrase ${phrase} has ${problem}`)
+  let i = 0
+  // the expansions of text and braces up to the end of the phrase, or of an alternative within braces
+  const expansions = (nested: boolean): string[] => {
+    let expanded = ['']
+    while (i < phrase.length) {
+      const c = phrase[i]
+      if (nested && (c === ',' || c === '}')) break
+      if (c === '}') throw invalid('an unbalanced brace')
+      if (c === '{') {
+        i++
+        const alternatives: string[] = []
+        for (;;) {
+          for (const a of expansions(true)) alternatives.push(a)
+          if (i === phrase.length) throw invalid('an unclosed brace')
+          if (phrase[i++] === '}') break
+        }
+        const product: string[] = []
+        for (const e of expanded) for (const a of alternatives) product.push(e + a)
+        expanded = product
+        continue
+      }
+      let end = i + 1
+      if (c === '\\') {
+        end = i + (phrase.codePointAt(i + 1)! > 0xffff ? 3 : 2)
+      } else if (c === '[') {
+        while (end < phrase.length && phrase[end] !== ']') end += phrase[end] === '\\' ? 2 : 1
+        if (end >= phrase.length) throw invalid('an unclosed set')
+        end++
+      }
+      const text = phrase.slice(i, end)
+      expanded = expanded.map((e) => e + text)
+      i = end
+    }
+    return expanded
+  }
+  return expansions(false)
+}
+
+// reads the wildcards, sets, and escapes of a phrase written with the glob option, its braces already expanded
+function parseGlob(phrase: string): GlobPart[] {
+  const invalid = (problem: string) => new ListMatcherError('INVALID_PHRASE', `the phrase ${phrase} has ${problem}`)
+  const codePoints = toCodePoints(phrase)
+  // the character at an index, unescaped, and the index of the character after it
+  const character = (i: number): [number, number] => {
+    if (codePoints[i] !== 92) return [codePoints[i], i + 1]
+    if (i + 1 === codePoints.length) throw invalid('a trailing backslash')
+    return [codePoints[i + 1], i + 2]
+  }
+  const parts: GlobPart[] = []
+  let text = ''
+  let i = 0
+  while (i < codePoints.length) {
+    const c = codePoints[i]
+    if (c !== 63 && c !== 91) {
+      const [ch, next] = character(i)
+      text += String.fromCodePoint(ch)
+      i = next
+      continue
+    }
+    if (text) parts.push({ text })
+    text = ''
+    i++
+    if (c === 63) {
+      parts.push({ any: true })
+      continue
+    }
+    const members = new Set<number>()
+    while (codePoints[i] !== 93) {
+      if (i >= codePoints.length) throw invalid('an unclosed set')
+      const [from, next] = character(i)
+      i = next
+      // a hyphen between two characters makes a range
+      if (codePoints[i] === 45 && i + 1 < codePoints.length && codePoints[i + 1] !== 93) {
+        const [to, after] = character(i + 1)
+        if (to < from) throw invalid('a range out of order')
+        for (let m = from; m <= to; m++) members.add(m)
+        i = after
+      } else {
+        members.add(from)
+      }
+    }
+    i++
+    if (!members.size) throw invalid('an empty set')
+    parts.push({ set: Array.from(members).sort((a, b) => a - b) })
+  }
+  if (text) parts.push({ text })
+  return parts
+}
+
+// writes the parts of a glob phrase back as a phrase, escaping what parseGlob would read as syntax
+function globPhrase(parts: GlobPart[]): string {
+  return parts
+    .map((part) => {
+      if ('text' in part) return part.text.replace(/[\\?[\]{}]/g, '\\$&')
+      if ('any' in part) return '?'
+      return `[${part.set.map((c) => String.fromCodePoint(c).replace(/[\\\]-]/, '\\$&')).join('')}]`
+    })
+    .join('')
+}
+
+// the text of a normalized phrase, or undefined if it has wildcards or sets
+function phraseText(w: string, options: Opts): string | undefined {
+  if (!options.glob) return w
+  let text = ''
+  for (const part of parseGlob(w)) {
+    if (!('text' in part)) return undefined
+    text += part.text
+  }
+  return text
+}
+
+// folds the members of a set, but for those folding to more than one character
+function foldedSet(set: number[], locale: string): number[] {
+  const folded = new Set<number>()
+  for (const c of set) {
+    const f = toCodePoints(foldCase(String.fromCodePoint(c), locale))
+    folded.add(f.length === 1 ? f[0] : c)
+  }
+  return Array.from(folded).sort((a, b) => a - b)
+}
+
+// make a function that traces matched text back to the indices of the phrases it matches
+// phrases are keyed by the same normalizations adjustOptions applies
+// phrases containing substitutions, interchangeable characters, or glob syntax must be tested one by one
+function phraseLookup(phrases: string[], opts: ListMatcherOptions): (text: string) => [number[], number] {
+  const ignoreAllCase = (opts.flags || '').includes('i')
+  const caseless = (p: string) =>
+    ignoreAllCase || opts.ignoreCase === true || (Array.isArray(opts.ignoreCase) && opts.ignoreCase.includes(p))
+  const key = (s: string, lowercase: boolean) => {
+    if (opts.normalize) s = s.normalize(opts.normalize)
+    if (opts.ignoreDiacritics) s = withoutDiacritics(s)
+    if (opts.normalizeWhitespace) s = s.trim().replace(/\s+/g, ' ')
+    return lowercase ? foldCase(s, opts.locale ?? '') : s
+  }
+  const substitutions = Object.keys(opts.substitutions || {})
+  const substituted = substitutions.length ? regex(substitutions) : undefined
+  const interchangeable = new Set<number>()
+  for (const e of opts.equivalences ?? []) {
+    for (const c of toCodePoints(typeof e === 'string' ? e : e.characters)) {
+      interchangeable.add(c)
+      if (opts.ignoreCase || ignoreAllCase)
+        interchangeable.add(toCodePoints(foldCase(String.fromCodePoint(c), opts.locale ?? ''))[0])
+    }
+  }
+  const fuzzy = !!fuzziness(opts)
+  const whole = (p: string, o: ListMatcherOptions) => {
+    const rx = regex([p], { ...o, capture: false })
+    return new RegExp(`^(?:${rx.source})$`, rx.flags.replace(/[gy]/g, ''))
+  }
+  const exact = new Map<string, number[]>()
+  const folded = new Map<string, number[]>()
+  // phrases tested by their own expressions, without and with the fuzzy option
+  const tested: [number, RegExp, RegExp | undefined][] = []
+  // the keys of the other phrases, for measuring the distance to them
+  const keys: [number, number[], boolean][] = []
+  phrases.forEach((p, i) => {
+    if (
+      substituted?.test(p) ||
+      (opts.glob && /[\\?[{]/.test(p)) ||
+      toCodePoints(key(p, caseless(p))).some((c) => interchangeable.has(c))
+    ) {
+      tested.push([i, whole(p, { ...opts, fuzzy: undefined }), fuzzy ? whole(p, opts) : undefined])
+    } else {
+      const lowercase = caseless(p)
+      const k = key(p, lowercase)
+      const map = lowercase ? folded : exact
+      map.set(k, (map.get(k) || []).concat([i]))
+      if (fuzzy) keys.push([i, toCodePoints(k), lowercase])
+    }
+  })
+  return (text) => {
+    const found = (exact.get(key(text, false)) || []).concat(folded.get(key(text, true)) || [])
+    for (const [i, rx] of tested) if (rx.test(text)) found.push(i)
+    if (found.length || !fuzzy) return [found.sort((a, b) => a - b), 0]
+    // the text is an edit from the phrases it matches, as the fuzzy option allows no more
+    for (const [i, k, lowercase] of keys) {
+      if (editDistance(toCodePoints(key(text, lowercase)), k, !!opts.fuzzy!.transpositions) === 1) found.push(i)
+    }
+    for (const [i, , rx] of tested) if (rx!.test(text)) found.push(i)
+    return [found.sort((a, b) => a - b), 1]
+  }
+}
+
+// the number of insertions, deletions, replacements, and, if allowed, transpositions of adjacent characters that
+// turn one string into another
+function editDistance(a: number[], b: number[], transpositions: boolean): number {
+  // the distances from the prefixes of a to the prefixes of b two, one, and no characters long
+  let before: number[] = []
+  let previous = b.map((_, j) => j + 1)
+  previous.unshift(0)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      let d = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      if (transpositions && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        d = Math.min(d, before[j - 2] + 1)
+      current.push(d)
+    }
+    before = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
 // get characters and codepoints that can be used for substitution
-function getUnusedCharacters(count: number, words: string[]): [number, string][] {
+function getUnusedCharacters(count: number, words: string[], locale: string): [number, string][] {
   if (count === 0) return []
   const found: (undefined | boolean)[] = []
   for (const w of words) {
-    for (let i = 0; i < w.length; i++) {
-      const n = w.codePointAt(i)
-      if (n !== undefined) found[n] = true
-    }
+    for (const n of toCodePoints(w)) found[n] = true
   }
   const unused: [number, string][] = []
   let i = 128 // skip ascii to avoid metacharacters and common characters
   while (unused.length < count) {
+    // surrogates are not characters in their own right
+    if (i === 0xd800) i = 0xe000
     if (!found[i]) {
       const c = String.fromCodePoint(i)
-      if (c.toLowerCase() === c && !/\s/.test(c)) unused.push([i, c])
+      if (foldCodePoint(i, locale) === c && !/\s/.test(c)) unused.push([i, c])
     }
     i++
   }
   return unused
 }
 
-// converts remaining characters to "codepoints" (real codepoints and special negative ones)
-// adds boundaries
-// fixes substitution map so its keys are negative
-function toSlices(words: string[], options: Opts): Slice[] {
-  const substitutionCodepoints = Object.keys(options.subtitutions || {}).map((n) => Number(n))
-  const slices = words.map((w) => {
-    // to accelerate other code, we store subtitution codepoints as negative numbers
-    let codePoints = w
-      .split('')
-      .map((c) => c.codePointAt(0) || 0)
-      .map((c) => (substitutionCodepoints.includes(c) ? -c : c))
-    if (options.normalizeWhitespace) codePoints = codePoints.map((c) => (c === 32 ? SPECIAL_CODE_POINTS.whiteSpace : c))
-    if (options.bound) {
-      if (options.unicode) {
-        if (codePoints[0] > 0 && /^[\p{L}\p{N}_]/u.test(w)) codePoints.unshift(SPECIAL_CODE_POINTS.unicodeLeftBoundary)
-        if (codePoints[codePoints.length - 1] > 0 && /[\p{L}\p{N}_]$/u.test(w))
-          codePoints.push(SPECIAL_CODE_POINTS.unicodeRightBoundary)
-      } else {
-        if (codePoints[0] > 0 && /^\w/.test(w)) codePoints.unshift(SPECIAL_CODE_POINTS.asciiBoundary)
-        if (codePoints[codePoints.length - 1] > 0 && /\w$/.test(w)) codePoints.push(SPECIAL_CODE_POINTS.asciiBoundary)
+// splits a string into its code points, keeping surrogate pairs together
+// the array is made at full length, as one grown a code point at a time keeps room to grow, and phrases are kept as
+// long as the tries holding them
+function toCodePoints(s: string): number[] {
+  const codePoints = new Array<number>(s.length)
+  let n = 0
+  for (let i = 0; i < s.length; i++) {
+    const c = s.codePointAt(i)!
+    codePoints[n++] = c
+    if (c > 0xffff) i++
+  }
+  if (n < s.length) codePoints.length = n
+  return codePoints
+}
+
+// Intl.Segmenter, so far as we use it, as the libraries this is compiled against may lack it
+type Segmenter = { segment: (s: string) => Iterable<{ segment: string }> }
+type SegmenterConstructor = new (locale: undefined, options: { granularity: 'grapheme' }) => Segmenter
+let graphemeSegmenter: Segmenter | undefined
+
+// splits a string into extended grapheme clusters
+// where Intl.Segmenter is unavailable we fall back to attaching combining marks and zero-width joiners to their bases
+function toGraphemes(s: string): string[] {
+  if (!graphemeSegmenter && typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const { Segmenter } = Intl as typeof Intl & { Segmenter: SegmenterConstructor }
+    graphemeSegmenter = new Segmenter(undefined, { granularity: 'grapheme' })
+  }
+  if (graphemeSegmenter) return Array.from(graphemeSegmenter.segment(s)).map((sg) => sg.segment)
+  return s.match(/\r\n|(?:\P{M}\p{M}*|\p{M}+)(?:\u200d\P{M}\p{M}*)*/gu) || []
+}
+
+// like toCodePoints, but each multi-code-point grapheme cluster is represented by a single composite code point
+function toClusters(w: string, caseless: boolean, options: Opts): number[] {
+  const { placeholders } = options
+  const codePoints: number[] = []
+  for (const g of toGraphemes(w)) {
+    const cps = toCodePoints(g)
+    if (cps.length === 1 || cps.some((c) => placeholders.has(c))) {
+      // substitutions take precedence over clustering
+      for (const c of cps) codePoints.push(placeholders.has(c) ? -c : c)
+    } else {
+      const variants = [g]
+      if (caseless && g.toUpperCase() !== g) variants.push(g.toUpperCase())
+      const cluster = (v: string): AstNode => ({
+        type: 'sequence',
+        nodes: toCodePoints(v).map((codePoint) => ({ type: 'literal', codePoint })),
+      })
+      codePoints.push(
+        variants.length === 1
+          ? compositeCodePoint(`g:${g}`, () => cluster(g), options)
+          : compositeCodePoint(
+              `g:${variants.join('|')}`,
+              () => ({ type: 'alternation', alternatives: variants.map(cluster) }),
+              options,
+            ),
+      )
+    }
+  }
+  return codePoints
+}
+
+// the full case folding of characters in a locale, found when first needed
+type CaseFolding = {
+  // the folding of each character folding changes
+  folded: Map<number, string>
+  // the characters folding to each folded string
+  foldedFrom: Map<string, number[]>
+  // the folded strings of more than one code point, by their first, longest first
+  sequences: Map<number, number[][]>
+}
+
+// case foldings by locale, the empty string being none in particular
+const caseFoldings = new Map<string, CaseFolding>()
+
+// the blocks holding cased characters
+const CASED_BLOCKS = [
+  [0, 0xd800],
+  [0xe000, 0x10000],
+  [0x10400, 0x10500],
+  [0x10570, 0x105c0],
+  [0x10c80, 0x10d00],
+  [0x118a0, 0x11900],
+  [0x16e40, 0x16ea0],
+  [0x1e900, 0x1e960],
+]
+
+// the characters a code point folds to, mapping to upper and then lower case until nothing changes
+// for the characters of the Unicode CaseFolding data this gives their full folding, but for the dotless i, which
+// only Turkic languages fold
+function foldCodePoint(codePoint: number, locale: string): string {
+  let s = String.fromCodePoint(codePoint)
+  if (codePoint === 0x131 && !locale) return s
+  for (let i = 0; i < 3; i++) {
+    let folded = ''
+    for (const c of toCodePoints(s)) {
+      const ch = String.fromCodePoint(c)
+      folded += locale ? ch.toLocaleUpperCase(locale).toLocaleLowerCase(locale) : ch.toUpperCase().toLowerCase()
+    }
+    if (folded === s) break
+    s = folded
+  }
+  return s
+}
+
+function caseFolding(locale: string): CaseFolding {
+  let folding = caseFoldings.get(locale)
+  if (folding) return folding
+  try {
+    if (locale) 'i'.toLocaleUpperCase(locale)
+  } catch (e) {
+    throw new ListMatcherError('INVALID_OPTION', `invalid locale: ${locale}`)
+  }
+  folding = { folded: new Map(), foldedFrom: new Map(), sequences: new Map() }
+  for (const [from, to] of CASED_BLOCKS) {
+    for (let c = from; c < to; c++) {
+      const f = foldCodePoint(c, locale)
+      const ch = String.fromCodePoint(c)
+      if (f === ch) continue
+      const cps = toCodePoints(f)
+      // ligatures such as ﬁ are left to the normalize option
+      if (cps.length > 1 && ch.normalize('NFKD') !== ch.normalize('NFD')) continue
+      folding.folded.set(c, f)
+      const sources = folding.foldedFrom.get(f)
+      if (sources) {
+        sources.push(c)
+        continue
       }
+      folding.foldedFrom.set(f, [c])
+      if (cps.length > 1) folding.sequences.set(cps[0], (folding.sequences.get(cps[0]) ?? []).concat([cps]))
     }
-    return { codePoints, start: 0, end: codePoints.length }
-  })
-  if (options.subtitutions) {
-    Object.entries(options.subtitutions).forEach(([k, v]) => {
-      options.subtitutions![-Number(k)] = v
-      delete options.subtitutions![Number(k)]
-    })
   }
-  return slices
+  folding.sequences.forEach((sequences) => sequences.sort((a, b) => b.length - a.length))
+  caseFoldings.set(locale, folding)
+  return folding
 }
 
-// take a collection of code points and try to make a character class expressions
-// this might be impossible -- some things represented as code points are actually more complex
-// if we cannot make a character class, it is useful to know whether this sub-expression is to be embedded in a list of alternates
-function charClass(codePoints: number[], embedded: boolean, opts: Opts): string {
-  codePoints.sort((a, b) => a - b)
-  if (codePoints[0] < 0) {
-    // some of these things can't go in a character class
-    const problems = []
-    while (codePoints.length) {
-      if (codePoints[0] >= 0) break
-      problems.push(codePoints.shift()!)
-    }
-    const parts = problems.map((c) => toAtom(c, false, opts))
-    if (codePoints.length > 1) {
-      const cc = safeCharClass(codePoints, opts)
-      if (cc.length < codePoints.length * 2 - 1) {
-        parts.push(cc)
-      } else {
-        parts.unshift(...codePoints.map((c) => toAtom(c, false)))
+// folds the case of a string, so strings equal without regard to case are equal
+function foldCase(s: string, locale: string): string {
+  const { folded } = caseFolding(locale)
+  let f = ''
+  for (const c of toCodePoints(s)) f += folded.get(c) ?? String.fromCodePoint(c)
+  return f
+}
+
+// converts the code points of a case-folded phrase into composites standing for all the characters folding alike
+// caseless phrases are given every variant; with the i flag only those the flag will not match by simple case
+// folding, such as ß for ss, are given
+function caseVariants(codePoints: number[], caseless: boolean, options: Opts): number[] {
+  const folding = caseFolding(options.locale)
+  const variants: number[] = []
+  for (let i = 0; i < codePoints.length; i++) {
+    const c = codePoints[i]
+    const sequence = folding.sequences.get(c)?.find((cps) => cps.every((cp, j) => codePoints[i + j] === cp))
+    if (!sequence) {
+      variants.push(caseClass(c, caseless, options))
+      continue
+    }
+    const froms = folding.foldedFrom.get(sequence.map((cp) => String.fromCodePoint(cp)).join(''))!
+    const nodes = sequence.map((cp) => toNode(caseClass(cp, caseless, options), options))
+    variants.push(
+      compositeCodePoint(
+        `f:${sequence.join(',')}:${caseless}`,
+        () => ({
+          type: 'alternation',
+          alternatives: [{ type: 'sequence', nodes }, classNode(froms.slice().sort((a, b) => a - b))],
+        }),
+        options,
+      ),
+    )
+    i += sequence.length - 1
+  }
+  return variants
+}
+
+// converts a folded code point into a composite standing for the characters folding to it, if there are any
+function caseClass(codePoint: number, caseless: boolean, options: Opts): number {
+  if (codePoint < 0) return codePoint
+  const c = String.fromCodePoint(codePoint)
+  let members = [codePoint].concat(caseFolding(options.locale).foldedFrom.get(c) ?? [])
+  // the i flag matches what simple case folding makes equal
+  if (!caseless)
+    members = members.filter((m) => m === codePoint || foldCodePoint(m, '') !== foldCodePoint(codePoint, ''))
+  if (members.length === 1) return codePoint
+  members.sort((a, b) => a - b)
+  return compositeCodePoint(
+    `c:${members.join(',')}`,
+    () => ({ type: 'charClass', codePoints: members }),
+    options,
+    members,
+  )
+}
+
+// removes the combining marks from a string, recomposing what remains
+function withoutDiacritics(s: string): string {
+  return s.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC')
+}
+
+// precomposed characters by the character they decompose into with combining marks, found when first needed
+let accentedForms: Map<number, number[]> | undefined
+
+// the precomposed characters consisting of a character and combining marks
+function accented(codePoint: number): number[] {
+  if (!accentedForms) {
+    accentedForms = new Map()
+    // these blocks hold all the precomposed characters of the Basic Multilingual Plane but Hangul syllables
+    for (const [from, to] of [
+      [0xc0, 0x3000],
+      [0xfb1d, 0xfb50],
+    ]) {
+      for (let c = from; c < to; c++) {
+        const decomposed = String.fromCodePoint(c).normalize('NFD')
+        if (!/^.\p{M}+$/su.test(decomposed)) continue
+        const base = decomposed.codePointAt(0)!
+        const forms = accentedForms.get(base) ?? []
+        accentedForms.set(base, forms.concat([c]))
       }
-    } else {
-      parts.unshift(...codePoints.map((c) => toAtom(c, false)))
     }
-    const middle = parts.join('|')
-    return embedded ? middle : `(?:${middle})`
+  }
+  return accentedForms.get(codePoint) ?? []
+}
+
+// converts a code point into a composite standing for it, or any of its precomposed accented forms, followed by any
+// combining marks
+function accentClass(codePoint: number, caseless: boolean, options: Opts): number {
+  if (codePoint < 0) return codePoint
+  const bases = [codePoint]
+  const upper = toCodePoints(String.fromCodePoint(codePoint).toUpperCase())
+  if (caseless && upper.length === 1 && upper[0] !== codePoint) bases.push(upper[0])
+  const members = bases.reduce((acc: number[], c) => acc.concat(accented(c)), bases)
+  if (members.length === bases.length) return codePoint
+  members.sort((a, b) => a - b)
+  return compositeCodePoint(
+    `d:${members.join(',')}`,
+    () => ({
+      type: 'sequence',
+      nodes: [classNode(members), { type: 'substitution', pattern: options.marks }],
+    }),
+    options,
+  )
+}
+
+// converts the first of a set of interchangeable characters into a composite standing for the set
+// caseless phrases are given every character folding to a member of the set
+function equivalenceClass(codePoint: number, caseless: boolean, options: Opts): number {
+  const folded = caseless || options.caseInsensitive
+  const set = (folded ? options.foldedEquivalences : options.equivalences).get(codePoint)
+  if (!set) return codePoint
+  const members = caseless ? unfolded(set.members, options) : set.members.slice().sort((a, b) => a - b)
+  if (!set.optional && !set.whiteSpace) {
+    if (members.length === 1) return codePoint
+    return compositeCodePoint(`e:${members.join(',')}`, () => classNode(members), options, members)
+  }
+  // separators that may be whitespace or nothing cannot be merged into a character class
+  return compositeCodePoint(
+    `e:${members.join(',')}:${set.optional}:${set.whiteSpace}`,
+    () => {
+      const node: AstNode = set.whiteSpace
+        ? { type: 'alternation', alternatives: [classNode(members), { type: 'whiteSpace' }] }
+        : classNode(members)
+      return set.optional ? { type: 'optional', node } : node
+    },
+    options,
+  )
+}
+
+// converts a set of the glob option into a composite standing for its members, which can merge into larger classes
+// caseless phrases are given every character folding to a member of the set
+function globSet(set: number[], caseless: boolean, options: Opts): number {
+  const members = caseless ? unfolded(set, options) : set
+  if (members.length === 1) return members[0]
+  return compositeCodePoint(
+    `c:${members.join(',')}`,
+    () => ({ type: 'charClass', codePoints: members }),
+    options,
+    members,
+  )
+}
+
+// folded code points, in order, with every character folding to them
+function unfolded(codePoints: number[], options: Opts): number[] {
+  const { foldedFrom } = caseFolding(options.locale)
+  const members = new Set<number>()
+  for (const c of codePoints) {
+    members.add(c)
+    for (const m of foldedFrom.get(String.fromCodePoint(c)) ?? []) members.add(m)
+  }
+  return Array.from(members).sort((a, b) => a - b)
+}
+
+// finds or assigns the special code point representing a composite atom
+// the key identifies the atom, the node function provides the expression it stands for
+function compositeCodePoint(key: string, node: () => AstNode, options: Opts, members?: number[]): number {
+  const composites = options.composites
+  let code = composites.codes[key]
+  if (code === undefined) {
+    code = composites.next--
+    composites.codes[key] = code
+    composites.keys[code] = key
+    composites.nodes[code] = node()
+    if (members) composites.members[code] = members
+  }
+  return code
+}
+
+// converts a normalized phrase to "codepoints" (real codepoints and special negative ones)
+// adds boundaries
+function encodePhrase(w: string, caseless: boolean, options: Opts): number[] {
+  const { placeholders } = options
+  const encodeText = (text: string) =>
+    options.graphemes
+      ? toClusters(text, caseless, options)
+      : placeholders.size
+      ? toCodePoints(text).map((c) => (placeholders.has(c) ? -c : c))
+      : toCodePoints(text)
+  let codePoints: number[] = []
+  if (options.glob) {
+    for (const part of parseGlob(w)) {
+      if ('text' in part) for (const c of encodeText(part.text)) codePoints.push(c)
+      else codePoints.push('set' in part ? globSet(part.set, caseless, options) : SPECIAL_CODE_POINTS.anyCharacter)
+    }
   } else {
-    return safeCharClass(codePoints, opts)
+    codePoints = encodeText(w)
+  }
+  if (options.equivalences.size) codePoints = codePoints.map((c) => equivalenceClass(c, caseless, options))
+  if (options.ignoreDiacritics) codePoints = codePoints.map((c) => accentClass(c, caseless, options))
+  if (caseless || options.caseInsensitive) codePoints = caseVariants(codePoints, caseless, options)
+  if (options.normalizeWhitespace) codePoints = codePoints.map((c) => (c === 32 ? SPECIAL_CODE_POINTS.whiteSpace : c))
+  if (options.bound) {
+    // composites begin and end as the text of the phrase does, where a grapheme cluster counts as its first character
+    const word = (c: number, side: 0 | 1) => {
+      const edge = wordEdge(c, side, options)
+      if (edge !== undefined) return edge
+      const parts: GlobPart[] = options.glob ? parseGlob(w) : [{ text: w }]
+      const part = parts[side ? parts.length - 1 : 0]
+      if (!('text' in part)) return false
+      const units = options.graphemes ? toGraphemes(part.text) : Array.from(part.text)
+      const base = units[side ? units.length - 1 : 0]?.codePointAt(0)
+      return base !== undefined && wordCharacter(String.fromCodePoint(base), options)
+    }
+    const [left, right] = boundaryCodePoints(options)
+    if (word(codePoints[0], 0)) codePoints.unshift(left)
+    if (word(codePoints[codePoints.length - 1], 1)) codePoints.push(right)
   }
+  return codePoints
+}
+
+// whether a character is a word character by the bound option
+// a function given as the bound option can only pass over edges the usual boundaries would mark, as it cannot be
+// written into the pattern
+function wordCharacter(c: string, options: Opts): boolean {
+  const { isWordCharacter } = options
+  if (options.wordCharacter !== undefined) return isWordCharacter!(c)
+  const standard = !options.unicode ? /^\w$/ : options.graphemes ? /^[\p{L}\p{M}\p{N}_]$/u : /^[\p{L}\p{N}_]$/u
+  return standard.test(c) && (!isWordCharacter || isWordCharacter(c))
+}
+
+// whether a phrase beginning or ending with the code point is bounded on that side, if the code point can tell
+// substitutions are word characters only if they say so, a class is one if all its members are, and a wildcard is not
+// other composites are made of real characters, and only the text of the phrase can tell
+function wordEdge(c: number, side: 0 | 1, options: Opts): boolean | undefined {
+  if (c < -127 && c > FIRST_COMPOSITE_CODE_POINT) return !!options.wordEdges[c]?.[side]
+  if (isWildcard(c, options)) return false
+  const members = options.composites.members[c]
+  if (members) return members.every((m) => wordCharacter(String.fromCodePoint(m), options))
+  if (c >= 0) return wordCharacter(String.fromCodePoint(c), options)
+  return undefined
+}
+
+// the code points of the boundaries the bound option puts before and after phrases
+function boundaryCodePoints(options: Opts): [number, number] {
+  if (options.wordCharacter !== undefined)
+    return [SPECIAL_CODE_POINTS.customLeftBoundary, SPECIAL_CODE_POINTS.customRightBoundary]
+  if (options.unicode) return [SPECIAL_CODE_POINTS.unicodeLeftBoundary, SPECIAL_CODE_POINTS.unicodeRightBoundary]
+  return [SPECIAL_CODE_POINTS.asciiLeftBoundary, SPECIAL_CODE_POINTS.asciiRightBoundary]
+}
+
+// whether the code point stands for any character, or any but a few
+function isWildcard(c: number, options: Opts): boolean {
+  return c === SPECIAL_CODE_POINTS.anyCharacter || options.composites.nodes[c]?.type === 'anyCharacter'
+}
+
+// the encodings of a normalized phrase: the phrase itself, and with the fuzzy option every phrase an edit from it
+function encodings(w: string, caseless: boolean, options: Opts): number[][] {
+  const encoded = encodePhrase(w, caseless, options)
+  return options.maxEdits ? fuzzyVariants(encoded, options) : [encoded]
+}
+
+// encodes all the words normalized by adjustOptions
+function encodePhrases(words: string[], options: Opts): number[][] {
+  const phrases: number[][] = []
+  for (const w of words) for (const p of encodings(w, !!options.caseless?.has(w), options)) phrases.push(p)
+  return phrases
+}
+
+// an encoded phrase with the phrases one insertion, deletion, replacement, or transposition from it
+// inserted and replaced characters are wildcards, and a phrase is bounded as before unless an edit leaves another
+// character at its edge
+// unless the pattern is anchored a character inserted at an edge would only take in the text beside the phrase
+function fuzzyVariants(encoded: number[], options: Opts): number[][] {
+  let start = 0
+  let end = encoded.length
+  if (BOUNDARY_CODE_POINTS.includes(encoded[0])) start++
+  if (end > start && BOUNDARY_CODE_POINTS.includes(encoded[end - 1])) end--
+  const left = encoded.slice(0, start)
+  const right = encoded.slice(end)
+  const middle = encoded.slice(start, end)
+  const any = SPECIAL_CODE_POINTS.anyCharacter
+  // a wildcard does not match the character it replaces or precedes, so that the text of the phrase is matched only
+  // as the phrase -- inserting that character is inserting it after, which cannot be done at the end unanchored
+  const inserted = (i: number) =>
+    options.anchor || middle.slice(i).some((c) => c !== middle[i]) ? wildcardBut(middle[i], options) : any
+  const edited: number[][] = [middle]
+  for (let i = 0; i <= middle.length; i++) {
+    if (i === middle.length) {
+      if (options.anchor) edited.push(middle.concat([any]))
+      break
+    }
+    if (options.anchor || i > 0) edited.push(middle.slice(0, i).concat([inserted(i)], middle.slice(i)))
+    edited.push(middle.slice(0, i).concat([wildcardBut(middle[i], options)], middle.slice(i + 1)))
+    // nothing is left of a single character deleted
+    if (middle.length > 1) edited.push(middle.slice(0, i).concat(middle.slice(i + 1)))
+    if (options.transpositions && i + 1 < middle.length && middle[i] !== middle[i + 1])
+      edited.push(middle.slice(0, i).concat([middle[i + 1], middle[i]], middle.slice(i + 2)))
+  }
+  const [leftBoundary, rightBoundary] = boundaryCodePoints(options)
+  // the character an edit leaves at an edge decides the boundary there, where it can
+  const bounded = (e: number[], side: 0 | 1, boundary: number[]) => {
+    const c = e[side ? e.length - 1 : 0]
+    if (!options.bound || c === middle[side ? middle.length - 1 : 0] || isWildcard(c, options)) return boundary
+    const word = wordEdge(c, side, options)
+    if (word === undefined) return boundary
+    return word ? [side ? rightBoundary : leftBoundary] : []
+  }
+  const seen = new Set<string>()
+  const variants: number[][] = []
+  for (const e of edited) {
+    const key = e.join()
+    if (seen.has(key)) continue
+    seen.add(key)
+    variants.push(bounded(e, 0, left).concat(e, bounded(e, 1, right)))
+  }
+  return variants
+}
+
+// a wildcard for a character typed in place of or before the one encoded, which it does not match
+// only characters and classes can be told from what is typed instead
+function wildcardBut(c: number, options: Opts): number {
+  const except = c >= 0 ? [c] : options.composites.members[c]
+  if (!except) return SPECIAL_CODE_POINTS.anyCharacter
+  return compositeCodePoint(`t:${except.join(',')}`, () => ({ type: 'anyCharacter', except }), options)
+}
+
+// take a collection of code points and make the alternatives matching any one of them, ideally a character class
+// this might be impossible -- some things represented as code points are actually more complex
+function charSet(codePoints: number[], opts: Opts): AstNode[] {
+  codePoints = expandComposites(codePoints, opts)
+  codePoints.sort((a, b) => compareCodePoints(a, b, opts))
+  // some of these things can't go in a character class
+  const problems = []
+  while (codePoints.length) {
+    if (codePoints[0] >= 0) break
+    problems.push(codePoints.shift()!)
+  }
+  if (!problems.length) return [classNode(codePoints)]
+  const parts = problems.map((c) => toNode(c, opts))
+  // composites, such as grapheme clusters, must be tried before any code point they might begin with
+  const composites = problems.filter((c) => opts.composites.nodes[c] !== undefined).length
+  if (codePoints.length > 1) {
+    const cc = classNode(codePoints)
+    if (rendered(cc, opts).length < codePoints.length * 2 - 1) return [...parts, cc]
+  }
+  parts.splice(composites, 0, ...codePoints.map((c) => toNode(c, opts)))
+  return parts
+}
+
+// composites come first, ordered by key, descending, so that a cluster precedes any cluster it begins with
+// everything else is in numeric order
+function compareCodePoints(a: number, b: number, opts: Opts): number {
+  if (a > FIRST_COMPOSITE_CODE_POINT || b > FIRST_COMPOSITE_CODE_POINT) return a - b
+  const { keys } = opts.composites
+  return keys[a] < keys[b] ? 1 : keys[a] > keys[b] ? -1 : 0
+}
+
+// replace composites standing for sets of code points with their members
+function expandComposites(codePoints: number[], opts: Opts): number[] {
+  const expanded: number[] = []
+  const seen = new Set<number>()
+  for (const c of codePoints) {
+    for (const m of opts.composites.members[c] || [c]) {
+      if (seen.has(m)) continue
+      seen.add(m)
+      expanded.push(m)
+    }
+  }
+  return expanded
 }
 
-// make a character class expression
 // at this point the code points should be filtered to just those that can live in a character class
-function safeCharClass(codePoints: number[], opts: Opts): string {
-  if (codePoints.length === 1) return toAtom(codePoints[0], false)
+function classNode(codePoints: number[]): AstNode {
+  return codePoints.length === 1
+    ? { type: 'literal', codePoint: codePoints[0] }
+    : { type: 'charClass', codePoints: codePoints }
+}
+
+// convert a code point back into a node of the syntax tree
+function toNode(codePoint: number, options: Opts): AstNode {
+  if (codePoint < 0 && codePoint > -127) {
+    // substitutions are < -127
+    switch (codePoint) {
+      case SPECIAL_CODE_POINTS.asciiLeftBoundary:
+        return { type: 'boundary', side: 'left', unicode: false }
+      case SPECIAL_CODE_POINTS.asciiRightBoundary:
+        return { type: 'boundary', side: 'right', unicode: false }
+      case SPECIAL_CODE_POINTS.unicodeLeftBoundary:
+        return options.graphemes
+          ? { type: 'boundary', side: 'left', unicode: true, marks: true }
+          : { type: 'boundary', side: 'left', unicode: true }
+      case SPECIAL_CODE_POINTS.unicodeRightBoundary:
+        return options.graphemes
+          ? { type: 'boundary', side: 'right', unicode: true, marks: true }
+          : { type: 'boundary', side: 'right', unicode: true }
+      case SPECIAL_CODE_POINTS.customLeftBoundary:
+        return { type: 'boundary', side: 'left', unicode: options.unicode, wordCharacter: options.wordCharacter }
+      case SPECIAL_CODE_POINTS.customRightBoundary:
+        return { type: 'boundary', side: 'right', unicode: options.unicode, wordCharacter: options.wordCharacter }
+      case SPECIAL_CODE_POINTS.whiteSpace:
+        return { type: 'whiteSpace' }
+      case SPECIAL_CODE_POINTS.anyCharacter:
+        return { type: 'anyCharacter' }
+      default:
+        throw new ListMatcherError('INTERNAL', `unexpected code point: ${codePoint}`)
+    }
+  } else {
+    const pattern = options.subtitutions?.[codePoint]
+    if (pattern !== undefined) return { type: 'substitution', pattern }
+    return options.composites.nodes[codePoint] ?? { type: 'literal', codePoint }
+  }
+}
+
+// renders nodes in the given dialect
+function syntaxRenderer(syntax: Syntax): Renderer {
+  return {
+    pattern: (node, { render, flags }) => {
+      const rx = render(node.node)
+      const inline = syntax.inlineFlags ? flags.replace(/[^ims]/g, '') : ''
+      return inline ? `(?${inline}:${rx})` : rx
+    },
+    literal: (node, { flags }) => quotemeta(node.codePoint, false, syntax, flags.includes('u')),
+    sequence: (node, { render }) => node.nodes.map(render).join(''),
+    alternation: (node, { render }) => `${syntax.group}${node.alternatives.map(render).join('|')})`,
+    optional: (node, { render }) => `${quantifiable(node.node, render(node.node), syntax)}?`,
+    charClass: (node, { flags }) => charClass(node.codePoints, syntax, flags),
+    repetition: (node, { render }) => {
+      const rx = render(node.node)
+      return maybeReduce(node.min, node.max, rx, quantifiable(node.node, rx, syntax))
+    },
+    boundary: (node) =>
+      node.wordCharacter !== undefined
+        ? customBoundary(node.side, node.wordCharacter, syntax)
+        : node.unicode && node.marks
+        ? node.side === 'left'
+          ? syntax.graphemeLeftBoundary
+          : syntax.graphemeRightBoundary
+        : node.unicode
+        ? node.side === 'left'
+          ? syntax.unicodeLeftBoundary
+          : syntax.unicodeRightBoundary
+        : node.side === 'left'
+        ? syntax.asciiLeftBoundary
+        : syntax.asciiRightBoundary,
+    substitution: (node) => node.pattern,
+    whiteSpace: () => syntax.whiteSpace,
+    anyCharacter: (node, { flags }) => (node.except ? allBut(node.except, syntax, flags) : '.'),
+    anchor: (node) => (node.side === 'start' ? '^' : '$'),
+    capture: (node, { render }) =>
+      `${node.name !== undefined && syntax.namedGroup ? `${syntax.namedGroup}${node.name}>` : '('}${render(
+        node.node,
+      )})`,
+    fail: () => syntax.never,
+  }
+}
+
+// a word boundary where word characters are those the class given as the bound option matches
+// without lookarounds the boundary consumes the character beside it, as the dialect's own boundaries do
+function customBoundary(side: 'left' | 'right', wordCharacter: string, syntax: Syntax): string {
+  if (syntax.lookarounds) return side === 'left' ? `(?<!${wordCharacter})` : `(?!${wordCharacter})`
+  const other = negatedClass(wordCharacter)
+  return side === 'left' ? `${syntax.group}^|${other})` : `${syntax.group}${other}|$)`
+}
+
+// the class of characters a character class or shorthand does not match
+function negatedClass(rx: string): string {
+  if (isAtom(rx)) {
+    if (rx.startsWith('[^')) return `[${rx.slice(2)}`
+    if (rx.startsWith('[')) return `[^${rx.slice(1)}`
+    if (/^\\[dswpDSWP]/.test(rx))
+      return `\\${rx[1] === rx[1].toLowerCase() ? rx[1].toUpperCase() : rx[1].toLowerCase()}${rx.slice(2)}`
+  }
+  throw new ListMatcherError(
+    'INVALID_OPTION',
+    `the bound option must be a character class or shorthand in a dialect without lookarounds, not ${rx}`,
+  )
+}
+
+// a class of any character but those given, or those a dot does not match either
+function allBut(codePoints: number[], syntax: Syntax, flags: string): string {
+  const rx =
+    codePoints.length === 1
+      ? quotemeta(codePoints[0], true, syntax, flags.includes('u'))
+      : charClass(codePoints, syntax, flags)
+  return `[^${rx.startsWith('[') ? rx.slice(1, -1) : rx}${flags.includes('s') ? '' : syntax.lineTerminators}]`
+}
+
+// make a character class expression
+function charClass(codePoints: number[], syntax: Syntax, flags: string): string {
+  const unicode = flags.includes('u')
+  if (codePoints.length === 1) return quotemeta(codePoints[0], false, syntax, unicode)
+  // without escapes, characters special in character classes must be placed carefully
+  let awkward: number[] = []
+  if (!syntax.charClassEscapes) {
+    awkward = codePoints.filter((c) => c === 45 || c === 93 || c === 94)
+    codePoints = codePoints.filter((c) => !awkward.includes(c))
+  }
   let skipping = false
   let start = null
   let current = -2
@@ -422,73 +3729,50 @@ function safeCharClass(codePoints: number[], opts: Opts): string {
     } else {
       if (skipping) {
         if (current > start! + 1) chars += '-'
-        chars += toAtom(current, true)
+        chars += quotemeta(current, true, syntax, unicode)
       }
       start = n
-      chars += toAtom(start, true)
+      chars += quotemeta(start, true, syntax, unicode)
       skipping = false
     }
     current = n
   }
   if (skipping) {
     if (current > start! + 1) chars += '-'
-    chars += toAtom(current, true)
+    chars += quotemeta(current, true, syntax, unicode)
   }
+  if (awkward.length) return `[${bracketExpression(chars, awkward)}]`
   // condense a few of the more common character classes
   // we might extend this list in the future
-  if (opts.caseInsensitive) {
-    chars = chars.replace(/0-9(.*)_(.*)a-z/, '\\w$1$2')
-  } else {
-    chars = chars.replace(/0-9(.*)A-Z(.*)_(.*)a-z/, '\\w$1$2$3')
+  if (syntax.shorthands) {
+    if (flags.includes('i')) {
+      chars = chars.replace(/0-9(.*)_(.*)a-z/, '\\w$1$2')
+    } else {
+      chars = chars.replace(/0-9(.*)A-Z(.*)_(.*)a-z/, '\\w$1$2$3')
+    }
+    chars = chars.replace('0-9', '\\d')
   }
-  chars = chars.replace('0-9', '\\d')
   return /^\\\w$/.test(chars) ? chars : `[${chars}]`
 }
 
-// convert a code point back into a fragment of a regular expression
-function toAtom(codePoint: number, inCharClass: boolean, options?: Opts): string {
-  if (codePoint < 0 && codePoint > -127) {
-    // substitutions are < -127
-    switch (codePoint) {
-      case SPECIAL_CODE_POINTS.asciiBoundary:
-        return '\\b'
-      case SPECIAL_CODE_POINTS.unicodeLeftBoundary:
-        return '(?<![\\p{L}\\p{N}_])'
-      case SPECIAL_CODE_POINTS.unicodeRightBoundary:
-        return '(?![\\p{L}\\p{N}_])'
-      case SPECIAL_CODE_POINTS.whiteSpace:
-        return '\\s+'
-      default:
-        throw new Error(`unexpected code point: ${codePoint}`)
-    }
-  } else {
-    if (options?.subtitutions) {
-      const rx = options.subtitutions[codePoint]
-      if (rx !== undefined) return rx
-    }
-    return quotemeta(codePoint, inCharClass)
-  }
+// place ], ^, and - where they will be taken literally in a character class without escapes
+// ] must come first, ^ anywhere but first, and - last
+function bracketExpression(chars: string, awkward: number[]): string {
+  const has = (c: string) => awkward.includes(c.codePointAt(0)!)
+  let tail = (has('^') ? '^' : '') + (has('-') ? '-' : '')
+  if (!chars && !has(']') && tail === '^-') tail = '-^'
+  return (has(']') ? ']' : '') + chars + tail
 }
 
-// escape regular expression meta-characters as necessary given the context
+// escape regular expression meta-characters as necessary given the context and dialect
 // character classes have different meta-characters
-function quotemeta(codePoint: number, inCharClass: boolean): string {
-  if (codePoint < 14) {
-    if (codePoint > 8) {
-      if (codePoint === 9) return '\\t'
-      if (codePoint === 10) return '\\n'
-      if (codePoint === 11) return '\\v'
-      if (codePoint === 12) return '\\f'
-      if (codePoint === 13) return '\\r'
-    } else if (codePoint === 0) {
-      return '\\0'
-    }
-    return String.fromCodePoint(codePoint)
-  }
+// the u flag forbids lone closing brackets, so these must be escaped as well
+function quotemeta(codePoint: number, inCharClass: boolean, syntax: Syntax, unicode: boolean): string {
+  if (codePoint < 14) return syntax.controls[codePoint] ?? String.fromCodePoint(codePoint)
   const c = String.fromCodePoint(codePoint)
-  if (codePoint > 124) return c
-  const escape = (inCharClass ? CHAR_CLASS_META : META).includes(codePoint)
-  return escape ? '\\' + c : c
+  if (codePoint > 125) return c
+  const meta = inCharClass ? syntax.charClassMeta : syntax === JAVASCRIPT_SYNTAX && unicode ? UNICODE_META : syntax.meta
+  return meta.includes(codePoint) ? '\\' + c : c
 }
 
 /**